@@ -1,9 +1,10 @@
--- Drop existing tables
-DROP TABLE IF EXISTS reading_stats;
-DROP TABLE IF EXISTS users;
+-- Migration 0001: initial schema
+-- The schema.sql the service was deployed with, without its DROP TABLE statements. Everything is
+-- IF NOT EXISTS, so databases created from schema.sql are recorded as migrated without changes,
+-- and the migrations after this one add the rest of the schema to them.
 
 -- Users table to store user information and streaks
-CREATE TABLE users (
+CREATE TABLE IF NOT EXISTS users (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     email TEXT UNIQUE NOT NULL,
     password_hash TEXT,
@@ -16,7 +17,7 @@ CREATE TABLE users (
 );
 
 -- Reading statistics table to store all read events
-CREATE TABLE reading_stats (
+CREATE TABLE IF NOT EXISTS reading_stats (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     user_id INTEGER NOT NULL,
     post_id TEXT NOT NULL,
@@ -30,7 +31,7 @@ CREATE TABLE reading_stats (
 );
 
 -- Create indexes for better query performance
-CREATE INDEX idx_reading_stats_user_id ON reading_stats(user_id);
-CREATE INDEX idx_reading_stats_post_id ON reading_stats(post_id);
-CREATE INDEX idx_reading_stats_read_date ON reading_stats(read_date);
-CREATE INDEX idx_users_email ON users(email); 
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_reading_stats_user_id ON reading_stats(user_id);
+CREATE INDEX IF NOT EXISTS idx_reading_stats_post_id ON reading_stats(post_id);
+CREATE INDEX IF NOT EXISTS idx_reading_stats_read_date ON reading_stats(read_date);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
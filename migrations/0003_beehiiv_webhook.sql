@@ -0,0 +1,15 @@
+-- Migration 0003: Beehiiv subscription webhook
+-- Subscription state kept in sync by POST /api/webhooks/beehiiv
+
+ALTER TABLE users ADD COLUMN is_active BOOLEAN DEFAULT 1;
+ALTER TABLE users ADD COLUMN subscription_tier TEXT;
+ALTER TABLE users ADD COLUMN beehiiv_subscriber_id TEXT;
+ALTER TABLE users ADD COLUMN unsubscribed_at DATETIME;
+
+-- Processed Beehiiv webhook events, used to make deliveries idempotent
+CREATE TABLE IF NOT EXISTS webhook_events (
+    event_id TEXT PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    email TEXT NOT NULL,
+    received_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,32 @@
+-- Migration 0004: badges
+
+-- Badge catalog; rule_type + threshold drive the rule evaluated in BadgeService
+CREATE TABLE IF NOT EXISTS badges (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    rule_type TEXT NOT NULL,
+    threshold INTEGER,
+    sort_order INTEGER DEFAULT 0
+);
+
+-- Badges awarded to users; awarded_at is when the rule was first met
+CREATE TABLE IF NOT EXISTS user_badges (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    badge_id TEXT NOT NULL,
+    awarded_at DATETIME NOT NULL,
+    UNIQUE (user_id, badge_id),
+    FOREIGN KEY (user_id) REFERENCES users(id),
+    FOREIGN KEY (badge_id) REFERENCES badges(id)
+);
+
+INSERT OR IGNORE INTO badges (id, name, description, rule_type, threshold, sort_order) VALUES
+    ('first-read', 'First Read', 'Read your first edition', 'first_read', 1, 10),
+    ('streak-7', 'Week Streak', 'Read 7 editions in a row', 'streak', 7, 20),
+    ('streak-30', 'Month Streak', 'Read 30 editions in a row', 'streak', 30, 30),
+    ('streak-100', 'Century Streak', 'Read 100 editions in a row', 'streak', 100, 40),
+    ('reads-50', 'Avid Reader', 'Read 50 editions', 'total_reads', 50, 50),
+    ('perfect-month', 'Perfect Month', 'Read every edition of a calendar month', 'perfect_month', NULL, 60);
+
+CREATE INDEX IF NOT EXISTS idx_user_badges_user_id ON user_badges(user_id);
@@ -0,0 +1,20 @@
+-- Migration 0005: XP ledger
+
+-- Append-only XP ledger; a user's XP is the sum of their entries.
+-- reference makes automatic awards idempotent, reverses_id links a reversal to the entry it cancels
+CREATE TABLE IF NOT EXISTS xp_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    amount INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    source TEXT NOT NULL,
+    reference TEXT UNIQUE,
+    reverses_id INTEGER UNIQUE,
+    created_by INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id),
+    FOREIGN KEY (reverses_id) REFERENCES xp_ledger(id),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_xp_ledger_user_id ON xp_ledger(user_id);
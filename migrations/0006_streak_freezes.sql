@@ -0,0 +1,22 @@
+-- Migration 0006: streak freezes
+
+-- Freezes a reader has available
+ALTER TABLE users ADD COLUMN streak_freezes INTEGER DEFAULT 0;
+
+-- Streak freeze inventory changes: earned/granted add freezes, used covers a missed edition_date
+CREATE TABLE IF NOT EXISTS streak_freeze_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    edition_date TEXT,
+    reference TEXT UNIQUE,
+    note TEXT,
+    created_by INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, type, edition_date),
+    FOREIGN KEY (user_id) REFERENCES users(id),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_streak_freeze_events_user_id ON streak_freeze_events(user_id);
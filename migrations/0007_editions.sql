@@ -0,0 +1,13 @@
+-- Migration 0007: edition calendar
+
+-- Edition calendar: one row per publication date. Streaks and opening rates only count these days.
+-- Posts in the post catalog register their publish day; admins can add, edit or remove dates.
+CREATE TABLE IF NOT EXISTS editions (
+    edition_date TEXT PRIMARY KEY,
+    post_id TEXT,
+    note TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_editions_post_id ON editions(post_id);
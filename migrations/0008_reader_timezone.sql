@@ -0,0 +1,4 @@
+-- Migration 0008: reader timezone
+-- reading_stats.read_date is the reader's local wall-clock time (users.timezone or DEFAULT_TIMEZONE)
+
+ALTER TABLE users ADD COLUMN timezone TEXT;
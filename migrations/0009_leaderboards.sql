@@ -0,0 +1,27 @@
+-- Migration 0009: leaderboards
+
+ALTER TABLE users ADD COLUMN display_name TEXT;
+ALTER TABLE users ADD COLUMN leaderboard_opt_out BOOLEAN DEFAULT 0;
+
+-- Cached public leaderboards: one snapshot per window + metric, refreshed when stale or when the period rolls over
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+    time_window TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    period_start TEXT,
+    generated_at DATETIME NOT NULL,
+    PRIMARY KEY (time_window, metric)
+);
+
+-- Ranked rows of each cached leaderboard; position is the unique row order used for cursors
+CREATE TABLE IF NOT EXISTS leaderboard_entries (
+    time_window TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    rank INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    value INTEGER NOT NULL,
+    PRIMARY KEY (time_window, metric, position),
+    FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_user_id ON leaderboard_entries(user_id);
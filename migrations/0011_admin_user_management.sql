@@ -0,0 +1,21 @@
+-- Migration 0011: admin user management
+
+-- Manual streak correction, kept while the run it was made on lasts
+ALTER TABLE users ADD COLUMN streak_adjustment INTEGER DEFAULT 0;
+ALTER TABLE users ADD COLUMN streak_adjustment_run TEXT;
+ALTER TABLE users ADD COLUMN deactivated_at DATETIME;
+
+-- Every change an admin makes to a user account; details holds the before/after values as JSON
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    admin_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    reason TEXT,
+    details TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (admin_id) REFERENCES users(id),
+    FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_user_id ON admin_audit_log(user_id);
@@ -0,0 +1,4 @@
+-- Migration 0012: account deletion
+-- Set when a reader deletes their account (see AccountService.deleteAccount)
+
+ALTER TABLE users ADD COLUMN deleted_at DATETIME;
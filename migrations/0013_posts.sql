@@ -0,0 +1,16 @@
+-- Migration 0013: local post catalog
+-- Beehiiv metadata cached per post. Rows are created on the first read of a post and refreshed by
+-- GET /api/posts once older than POST_CACHE_TTL_SECONDS, or by POST /api/admin/posts/sync.
+-- fetched_at stays NULL until Beehiiv has answered for the post.
+CREATE TABLE IF NOT EXISTS posts (
+    post_id TEXT PRIMARY KEY,
+    title TEXT,
+    slug TEXT,
+    web_url TEXT,
+    publish_date DATETIME,
+    fetched_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_posts_fetched_at ON posts(fetched_at);
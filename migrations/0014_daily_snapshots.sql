@@ -0,0 +1,15 @@
+-- Migration 0014: daily snapshots
+-- One row per publication day, written by the nightly cron job after the day ends. Historical admin
+-- charts read these instead of today's stored streaks. streak_distribution is a JSON object of
+-- reader counts per streak bucket, e.g. {"0": 120, "1-6": 40, "7-29": 12, "30-99": 3, "100+": 0}.
+CREATE TABLE IF NOT EXISTS daily_snapshots (
+    snapshot_date TEXT PRIMARY KEY,
+    is_edition_day BOOLEAN NOT NULL DEFAULT 0,
+    total_users INTEGER NOT NULL,
+    active_readers INTEGER NOT NULL,
+    opening_rate REAL,
+    avg_streak REAL NOT NULL,
+    streak_distribution TEXT NOT NULL,
+    streaks_reset INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
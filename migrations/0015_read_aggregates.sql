@@ -0,0 +1,34 @@
+-- Migration 0015: read aggregates
+-- Counters that recordRead updates together with each new read, so the admin dashboard never scans
+-- reading_stats. POST /api/admin/aggregates/rebuild recomputes them from reading_stats.
+
+-- Per-user totals; days are the reader's local days, like date(reading_stats.read_date)
+CREATE TABLE IF NOT EXISTS user_read_totals (
+    user_id INTEGER PRIMARY KEY,
+    total_reads INTEGER NOT NULL DEFAULT 0,
+    first_read_day TEXT NOT NULL,
+    last_read_day TEXT NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Reads per post per day. Each reader reads a post once, so reads are also unique readers
+CREATE TABLE IF NOT EXISTS daily_post_reads (
+    read_day TEXT NOT NULL,
+    post_id TEXT NOT NULL,
+    reads INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (read_day, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_read_totals_last_read_day ON user_read_totals(last_read_day);
+
+-- Fill both tables from the reads recorded so far
+INSERT OR REPLACE INTO user_read_totals (user_id, total_reads, first_read_day, last_read_day)
+SELECT user_id, COUNT(*), MIN(date(read_date)), MAX(date(read_date))
+FROM reading_stats
+GROUP BY user_id;
+
+INSERT OR REPLACE INTO daily_post_reads (read_day, post_id, reads)
+SELECT date(read_date), post_id, COUNT(*)
+FROM reading_stats
+GROUP BY date(read_date), post_id;
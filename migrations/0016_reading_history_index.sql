@@ -0,0 +1,5 @@
+-- Migration 0016: reading history index
+-- Serves the paginated reading history (newest first, by read_date then id) of one reader
+-- without scanning all of their reads.
+
+CREATE INDEX IF NOT EXISTS idx_reading_stats_user_read_date ON reading_stats(user_id, read_date, id);
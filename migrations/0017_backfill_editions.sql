@@ -0,0 +1,10 @@
+-- Migration 0017: edition calendar backfill
+-- The calendar starts empty, which would end every existing streak. Each post read so far becomes an
+-- edition on the day it was first read, unless it already has one; when two posts were first read on
+-- the same day the first one wins. Admins can correct the result with the edition calendar endpoints.
+INSERT OR IGNORE INTO editions (edition_date, post_id, note)
+SELECT MIN(date(read_date)), post_id, 'Backfilled from reads'
+FROM reading_stats
+WHERE post_id NOT IN (SELECT post_id FROM editions WHERE post_id IS NOT NULL)
+GROUP BY post_id
+ORDER BY MIN(read_date);
@@ -0,0 +1,4 @@
+-- Migration 0018: daily_post_reads post index
+-- Opening rates count the reads of each edition's post on any day, so they look reads up by post
+
+CREATE INDEX IF NOT EXISTS idx_daily_post_reads_post_id ON daily_post_reads(post_id);
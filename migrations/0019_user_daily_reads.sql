@@ -0,0 +1,19 @@
+-- Migration 0019: per-reader daily reads
+-- Replaces user_read_totals, whose first and last read days can't tell whether a reader read
+-- inside a date range. The admin statistics count range readers and reads from these rows.
+
+-- Reads per reader per day; days are the reader's local days, like date(reading_stats.read_date)
+CREATE TABLE IF NOT EXISTS user_daily_reads (
+    read_day TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    reads INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (read_day, user_id),
+    FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT OR REPLACE INTO user_daily_reads (read_day, user_id, reads)
+SELECT date(read_date), user_id, COUNT(*)
+FROM reading_stats
+GROUP BY date(read_date), user_id;
+
+DROP TABLE IF EXISTS user_read_totals;
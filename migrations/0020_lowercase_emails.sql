@@ -0,0 +1,9 @@
+-- Migration 0020: lowercase emails
+-- Reads used to store the email as typed in the tracking link, while signatures and the Beehiiv
+-- webhook use it lowercase. Lowercases stored emails unless that would merge two accounts;
+-- those duplicates are left as they are for an admin to resolve.
+
+UPDATE users
+SET email = lower(trim(email))
+WHERE email != lower(trim(email))
+AND (SELECT COUNT(*) FROM users o WHERE lower(trim(o.email)) = lower(trim(users.email))) = 1;
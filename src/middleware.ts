@@ -0,0 +1,176 @@
+import { DatabaseService } from './services/db.service';
+import { AuthService } from './services/auth.service';
+import { MigrationService } from './services/migration.service';
+import { Middleware, Route, json } from './router';
+import { ApiError, ErrorResponse, ForbiddenError, UnauthenticatedError, ValidationError } from './types';
+
+function requiredMessage(subject: string, route: Route): string {
+	return route.purpose ? `${subject} is required ${route.purpose}` : `${subject} is required`;
+}
+
+/**
+ * Answers preflight requests and adds the CORS headers to every response, errors included.
+ */
+export function cors(allowedOrigins: string[]): Middleware {
+	return async ({ request }, next) => {
+		const origin = request.headers.get('Origin') || '';
+
+		// CORS headers to be applied to all responses
+		const corsHeaders = {
+			'Access-Control-Allow-Origin': allowedOrigins.includes(origin) ? origin : allowedOrigins[0],
+			'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+			'Access-Control-Allow-Credentials': 'true',
+			'Access-Control-Expose-Headers': 'Content-Disposition, X-Request-Id, Retry-After',
+		};
+
+		// Handle CORS preflight requests
+		if (request.method === 'OPTIONS') {
+			return new Response(null, {
+				headers: {
+					...corsHeaders,
+					'Access-Control-Max-Age': '86400',
+				},
+			});
+		}
+
+		// Copy the response, since headers of redirects and fetched responses are immutable
+		const response = await next();
+		const withCors = new Response(response.body, response);
+		for (const [name, value] of Object.entries(corsHeaders)) {
+			withCors.headers.set(name, value);
+		}
+		return withCors;
+	};
+}
+
+/**
+ * The JSON error body for anything thrown while handling a request. Only ApiError messages
+ * are returned; other errors are logged and answered with a generic 500.
+ */
+export function errorResponse(error: unknown, requestId: string): Response {
+	if (error instanceof ApiError) {
+		if (error.status >= 500) {
+			console.error(`[${requestId}] ${error.name}:`, error);
+		}
+
+		const body: ErrorResponse = { error: error.message, code: error.code, request_id: requestId };
+		return json(body, error.status, { ...error.headers, 'X-Request-Id': requestId });
+	}
+
+	console.error(`[${requestId}] Error:`, error);
+	const body: ErrorResponse = {
+		error: 'An unexpected error occurred. Please try again later.',
+		code: 'internal_error',
+		request_id: requestId,
+	};
+	return json(body, 500, { 'X-Request-Id': requestId });
+}
+
+export function handleErrors(): Middleware {
+	return async ({ requestId }, next) => {
+		try {
+			return await next();
+		} catch (error) {
+			return errorResponse(error, requestId);
+		}
+	};
+}
+
+// Set once the schema check passes; it only has to run once per isolate
+let schemaChecked = false;
+
+/**
+ * Refuses to serve (503) until the database has been migrated to the version this code expects.
+ */
+export function requireSchema(migrationService: MigrationService): Middleware {
+	return async (_context, next) => {
+		if (!schemaChecked) {
+			await migrationService.assertUpToDate();
+			schemaChecked = true;
+		}
+		return next();
+	};
+}
+
+/**
+ * Enforces the role a route declares and sets `context.user` from the Bearer token.
+ * Tokens of deactivated or deleted accounts are refused.
+ */
+export function authenticate(authService: AuthService, db: DatabaseService): Middleware {
+	return async (context, next) => {
+		const { route, request } = context;
+		const role = route?.role ?? 'public';
+		const authHeader = request.headers.get('Authorization');
+
+		if (!route || (role === 'public' && !(route.optionalAuth && authHeader?.startsWith('Bearer ')))) {
+			return next();
+		}
+
+		if (!authHeader?.startsWith('Bearer ')) {
+			throw new UnauthenticatedError(
+				role === 'admin' ? 'Authentication token is required for admin access' : requiredMessage('Authentication token', route)
+			);
+		}
+
+		const token = authHeader.slice(7);
+		const userData = await authService.verifyToken(token);
+		if (!userData) {
+			throw new UnauthenticatedError('Invalid or expired authentication token');
+		}
+
+		// Access tokens outlive a deactivation or deletion by up to 15 minutes, so check the account on every request
+		const user = await db
+			.prepare('SELECT is_admin, deactivated_at, deleted_at FROM users WHERE id = ?')
+			.bind(userData.userId)
+			.first<{ is_admin: boolean; deactivated_at: string | null; deleted_at: string | null }>();
+		if (!user || user.deleted_at) {
+			throw new UnauthenticatedError('Invalid or expired authentication token');
+		}
+		if (user.deactivated_at) {
+			throw new ForbiddenError('This account has been deactivated. Please contact support.');
+		}
+
+		if (role === 'admin' && !user.is_admin) {
+			throw new ForbiddenError('Admin privileges are required to access this resource');
+		}
+
+		context.user = userData;
+		return next();
+	};
+}
+
+/**
+ * Parses the JSON body of routes that declare one. Optional bodies default to `{}`.
+ * Handlers read fields off the body, so anything but a JSON object is refused.
+ */
+export function parseBody(): Middleware {
+	return async (context, next) => {
+		const { route, request } = context;
+		if (!route?.body) {
+			return next();
+		}
+
+		if (!request.body) {
+			if (route.body === 'required') {
+				throw new ValidationError(requiredMessage('Request body', route));
+			}
+			context.body = {};
+			return next();
+		}
+
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch {
+			throw new ValidationError('Request body must be valid JSON');
+		}
+
+		if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+			throw new ValidationError('Request body must be a JSON object');
+		}
+
+		context.body = body;
+		return next();
+	};
+}
@@ -0,0 +1,150 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { Router, Route, matchPath } from './router';
+import { authenticate, cors, handleErrors, parseBody } from './middleware';
+import { AuthService } from './services/auth.service';
+import { DatabaseService } from './services/db.service';
+import { ConflictError, Env } from './types';
+import { migrate } from './test-helpers';
+
+const routes: Route[] = [
+	{ method: 'GET', path: '/api/items', handler: async () => [] },
+	{ method: 'POST', path: '/api/items', handler: async () => ({ created: true }) },
+	{ method: 'GET', path: '/api/items/:id', handler: async ({ params }) => ({ id: params.id }) },
+	{
+		method: 'DELETE',
+		path: '/api/items/:id',
+		handler: async () => {
+			throw new ConflictError('Item is locked');
+		},
+	},
+	{
+		method: 'POST',
+		path: '/api/items/:id/archive',
+		handler: async () => {
+			throw new Error('D1_ERROR: no such table: items');
+		},
+	},
+];
+
+function createRouter() {
+	return new Router(routes, [cors(['https://app.test']), handleErrors()]);
+}
+
+describe('matchPath', () => {
+	it('should capture path parameters', () => {
+		expect(matchPath('/api/admin/users/:id/status', '/api/admin/users/42/status')).toEqual({ id: '42' });
+		expect(matchPath('/api/admin/editions/:date', '/api/admin/editions/2024-03-20')).toEqual({ date: '2024-03-20' });
+		expect(matchPath('/api/me', '/api/me')).toEqual({});
+	});
+
+	it('should not match other paths', () => {
+		expect(matchPath('/api/admin/users/:id', '/api/admin/users')).toBeNull();
+		expect(matchPath('/api/admin/users/:id', '/api/admin/users/')).toBeNull();
+		expect(matchPath('/api/admin/users/:id', '/api/admin/users/42/status')).toBeNull();
+		expect(matchPath('/api/me', '/api/me/export')).toBeNull();
+	});
+});
+
+describe('Router', () => {
+	it('should run the matching handler', async () => {
+		const response = await createRouter().handle(new Request('https://api.test/api/items/7'));
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ id: '7' });
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.test');
+	});
+
+	it('should answer 405 with the allowed methods', async () => {
+		const response = await createRouter().handle(new Request('https://api.test/api/items', { method: 'DELETE' }));
+
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('GET, POST');
+	});
+
+	it('should answer 404 for unknown paths', async () => {
+		const response = await createRouter().handle(new Request('https://api.test/api/unknown'));
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ code: 'not_found' });
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.test');
+	});
+
+	it('should turn thrown errors into responses with a code and the request id', async () => {
+		const request = new Request('https://api.test/api/items/7', { method: 'DELETE', headers: { 'CF-Ray': '8a1b2c3d4e5f-GRU' } });
+		const response = await createRouter().handle(request);
+
+		expect(response.status).toBe(409);
+		expect(await response.json()).toEqual({ error: 'Item is locked', code: 'conflict', request_id: '8a1b2c3d4e5f-GRU' });
+		expect(response.headers.get('X-Request-Id')).toBe('8a1b2c3d4e5f-GRU');
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.test');
+	});
+
+	it('should not leak the message of unexpected errors', async () => {
+		const response = await createRouter().handle(new Request('https://api.test/api/items/7/archive', { method: 'POST' }));
+		const body = (await response.json()) as { error: string; code: string; request_id: string };
+
+		expect(response.status).toBe(500);
+		expect(body.code).toBe('internal_error');
+		expect(body.error).not.toContain('D1_ERROR');
+		expect(body.request_id).toBeTruthy();
+	});
+});
+
+describe('parseBody', () => {
+	const router = new Router(
+		[{ method: 'POST', path: '/api/me/timezone', body: 'required', handler: async ({ body }) => body }],
+		[handleErrors(), parseBody()]
+	);
+
+	async function post(body: string) {
+		return router.handle(new Request('https://api.test/api/me/timezone', { method: 'POST', body }));
+	}
+
+	it('should pass JSON objects to the handler', async () => {
+		const response = await post('{"timezone":"Asia/Tokyo"}');
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ timezone: 'Asia/Tokyo' });
+	});
+
+	it('should refuse bodies that are not JSON objects', async () => {
+		for (const body of ['null', '5', '[]', '"text"', '{']) {
+			expect((await post(body)).status).toBe(400);
+		}
+	});
+});
+
+describe('authenticate', () => {
+	const db = new DatabaseService(env.DB);
+	const authService = new AuthService(db, { JWT_SECRET: 'test-secret' } as Env);
+	const router = new Router(
+		[
+			{ method: 'GET', path: '/api/me', role: 'user', handler: async ({ user }) => user },
+			{ method: 'GET', path: '/api/admin/users', role: 'admin', handler: async () => [] },
+		],
+		[handleErrors(), authenticate(authService, db)]
+	);
+
+	async function get(path: string, userId: number) {
+		const { token } = await authService.issueTokens(userId, 'reader@example.com');
+		return router.handle(new Request(`https://api.test${path}`, { headers: { Authorization: `Bearer ${token}` } }));
+	}
+
+	it('should refuse tokens of deactivated and deleted accounts', async () => {
+		await migrate(env.DB);
+		await env.DB.prepare(
+			`
+			INSERT INTO users (id, email, deactivated_at, deleted_at) VALUES
+				(1, 'reader@example.com', NULL, NULL),
+				(2, 'blocked@example.com', '2024-03-20T10:00:00.000Z', NULL),
+				(3, 'deleted-3@deleted.invalid', '2024-03-20T10:00:00.000Z', '2024-03-20T10:00:00.000Z')
+			`
+		).run();
+
+		expect((await get('/api/me', 1)).status).toBe(200);
+		expect((await get('/api/admin/users', 1)).status).toBe(403);
+		expect((await get('/api/me', 2)).status).toBe(403);
+		expect((await get('/api/me', 3)).status).toBe(401);
+	});
+});
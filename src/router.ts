@@ -0,0 +1,119 @@
+import { MethodNotAllowedError, NotFoundError, TokenPayload } from './types';
+
+export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Who may call a route. `user` and `admin` routes always have `context.user` set;
+ * the auth middleware rejects the request before the handler runs otherwise.
+ */
+export type RouteRole = 'public' | 'user' | 'admin';
+
+export interface RouteContext {
+	request: Request;
+	url: URL;
+	// Cloudflare's Ray ID when available, so errors can be matched with the platform logs
+	requestId: string;
+	// Path parameters, e.g. { id: '42' } for /api/admin/users/:id
+	params: Record<string, string>;
+	// Undefined when no route matched the path and method
+	route?: Route;
+	user?: TokenPayload;
+	// Parsed JSON body, for routes that declare one
+	body?: unknown;
+}
+
+export interface Route {
+	method: RouteMethod;
+	// Literal segments and `:name` parameters, e.g. /api/admin/users/:id/status
+	path: string;
+	role?: RouteRole;
+	// Public routes that still identify the caller when a token is sent
+	optionalAuth?: boolean;
+	body?: 'required' | 'optional';
+	// Completes the error messages of the middleware, e.g. "to update your timezone"
+	purpose?: string;
+	// Plain values are sent as JSON with status 200
+	handler: (context: RouteContext) => Promise<unknown>;
+}
+
+export type Middleware = (context: RouteContext, next: () => Promise<Response>) => Promise<Response>;
+
+export function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(data), {
+		status,
+		headers: { ...headers, 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * Returns the path parameters when `pathname` matches `pattern`, or null.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+	const patternSegments = pattern.split('/');
+	const pathSegments = pathname.split('/');
+
+	if (patternSegments.length !== pathSegments.length) {
+		return null;
+	}
+
+	const params: Record<string, string> = {};
+	for (let i = 0; i < patternSegments.length; i++) {
+		const segment = patternSegments[i];
+		if (segment.startsWith(':') && pathSegments[i]) {
+			try {
+				params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+			} catch {
+				return null;
+			}
+		} else if (segment !== pathSegments[i]) {
+			return null;
+		}
+	}
+
+	return params;
+}
+
+/**
+ * Matches requests against a route table and runs them through the middleware, in order.
+ * Middleware also runs when nothing matched: the router then throws a NotFoundError or a
+ * MethodNotAllowedError, which the error middleware turns into the 404 or 405 response.
+ */
+export class Router {
+	constructor(private routes: Route[], private middleware: Middleware[] = []) {}
+
+	async handle(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const context: RouteContext = { request, url, requestId: request.headers.get('CF-Ray') || crypto.randomUUID(), params: {} };
+		const allowedMethods = new Set<string>();
+
+		for (const route of this.routes) {
+			const params = matchPath(route.path, url.pathname);
+			if (!params) {
+				continue;
+			}
+
+			if (route.method === request.method) {
+				context.route = route;
+				context.params = params;
+				break;
+			}
+			allowedMethods.add(route.method);
+		}
+
+		const dispatch = async (): Promise<Response> => {
+			if (context.route) {
+				const result = await context.route.handler(context);
+				return result instanceof Response ? result : json(result);
+			}
+
+			if (allowedMethods.size) {
+				throw new MethodNotAllowedError([...allowedMethods]);
+			}
+
+			throw new NotFoundError('Endpoint not found');
+		};
+
+		const chain = this.middleware.reduceRight<() => Promise<Response>>((next, middleware) => () => middleware(context, next), dispatch);
+		return chain();
+	}
+}
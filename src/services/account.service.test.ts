@@ -0,0 +1,106 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountService } from './account.service';
+import { AuthService } from './auth.service';
+import { BadgeService } from './badge.service';
+import { DatabaseService } from './db.service';
+import { ReferralService } from './referral.service';
+import { migrate } from '../test-helpers';
+import { Env } from '../types';
+
+describe('AccountService on D1', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+	const testEnv = { JWT_SECRET: 'test-secret' } as Env;
+	const authService = new AuthService(db, testEnv);
+	const accounts = new AccountService(db, authService, new BadgeService(db), new ReferralService(db, testEnv));
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		const passwordHash = await authService.hashPassword('secret-password');
+		await env.DB.batch([
+			env.DB
+				.prepare(
+					`
+					INSERT INTO users (id, email, password_hash, display_name, timezone, streak_freezes, created_at)
+					VALUES (1, 'reader@example.com', ?, 'Reader', 'Asia/Tokyo', 1, '2024-03-01 12:00:00')
+					`
+				)
+				.bind(passwordHash),
+			env.DB.prepare("INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_1'), ('2024-03-19', 'post_2')"),
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date, utm_source) VALUES
+					(1, 'post_1', '2024-03-18 12:00:00', 'email'),
+					(1, 'post_2', '2024-03-19 12:00:00', NULL)
+				`
+			),
+			env.DB.prepare("INSERT INTO user_badges (user_id, badge_id, awarded_at) VALUES (1, 'first-read', '2024-03-18 12:00:00')"),
+			env.DB.prepare("INSERT INTO xp_ledger (user_id, amount, reason, source) VALUES (1, 10, 'read', 'read')"),
+			env.DB.prepare("INSERT INTO streak_freeze_events (user_id, type, amount, note) VALUES (1, 'granted', 1, 'welcome')"),
+			// A second subscriber who read one of the two editions
+			env.DB.prepare("INSERT INTO users (id, email, created_at) VALUES (2, 'other@example.com', '2024-03-01 12:00:00')"),
+			env.DB.prepare("INSERT INTO reading_stats (user_id, post_id, read_date) VALUES (2, 'post_1', '2024-03-18 13:00:00')"),
+		]);
+		await authService.issueTokens(1, 'reader@example.com');
+	});
+
+	async function count(table: string) {
+		const row = await env.DB.prepare(`SELECT COUNT(*) as total FROM ${table} WHERE user_id = 1`).first<{ total: number }>();
+		return row!.total;
+	}
+
+	it('should export everything stored about the reader', async () => {
+		const exported = await accounts.exportData(1);
+
+		expect(exported.profile).toMatchObject({ id: 1, email: 'reader@example.com', display_name: 'Reader', timezone: 'Asia/Tokyo' });
+		expect(exported.reads).toEqual([
+			{ post_id: 'post_1', read_date: '2024-03-18 12:00:00', utm_source: 'email', utm_medium: null, utm_campaign: null, utm_channel: null },
+			{ post_id: 'post_2', read_date: '2024-03-19 12:00:00', utm_source: null, utm_medium: null, utm_campaign: null, utm_channel: null },
+		]);
+		expect(exported.streaks).toMatchObject({ current_streak: 2, highest_streak: 2 });
+		expect(exported.badges).toMatchObject([{ id: 'first-read', awarded_at: '2024-03-18 12:00:00' }]);
+		expect(exported.xp).toMatchObject({ total: 10, ledger: [{ amount: 10, reason: 'read' }] });
+		expect(exported.streak_freezes).toMatchObject({ available: 1, history: [{ type: 'granted', note: 'welcome' }] });
+		expect(exported.referrals).toEqual([]);
+	});
+
+	it('should require the right password to delete the account', async () => {
+		await expect(accounts.deleteAccount(1, '')).rejects.toThrow('Your password is required to delete your account');
+		await expect(accounts.deleteAccount(1, 'wrong-password')).rejects.toThrow('Password is incorrect');
+
+		expect(await count('refresh_tokens')).toBe(1);
+	});
+
+	it('should anonymise the reader, revoke their sessions and remove their rewards', async () => {
+		await db.rebuildReadAggregates();
+		const range = { startDate: '2024-03-18', endDate: '2024-03-19' };
+		const statsBefore = await db.getAdminStats(range);
+
+		await accounts.deleteAccount(1, 'secret-password');
+
+		const user = await env.DB.prepare('SELECT * FROM users WHERE id = 1').first();
+		expect(user).toMatchObject({
+			email: 'deleted-1@deleted.invalid',
+			password_hash: null,
+			display_name: null,
+			timezone: null,
+			is_active: 0,
+			streak_freezes: 0,
+		});
+		expect(user!.deleted_at).not.toBeNull();
+
+		expect(await count('refresh_tokens')).toBe(0);
+		expect(await count('user_badges')).toBe(0);
+		expect(await count('xp_ledger')).toBe(0);
+		expect(await count('streak_freeze_events')).toBe(0);
+
+		// The reads stay on the anonymous placeholder and the account still counts as a subscriber,
+		// so admin totals don't change
+		expect(await count('reading_stats')).toBe(2);
+		expect(statsBefore).toMatchObject({ total_users: 2, total_reads: 3, avg_opening_rate: 75 });
+		expect(await db.getAdminStats(range)).toEqual(statsBefore);
+
+		await expect(accounts.exportData(1)).rejects.toThrow('User not found');
+		await expect(accounts.deleteAccount(1, 'secret-password')).rejects.toThrow('User not found');
+	});
+});
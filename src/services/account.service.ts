@@ -0,0 +1,135 @@
+import { DatabaseService } from './db.service';
+import { AuthService } from './auth.service';
+import { BadgeService } from './badge.service';
+import { ReferralService } from './referral.service';
+import { AccountExport, AccountProfile, NotFoundError, ReadEvent, ValidationError, XpLedgerEntry } from '../types';
+
+/**
+ * Self-service access to a reader's own data (LGPD/GDPR): their profile, a full export and account deletion.
+ */
+export class AccountService {
+	constructor(
+		private db: DatabaseService,
+		private authService: AuthService,
+		private badgeService: BadgeService,
+		private referralService: ReferralService
+	) {}
+
+	async getProfile(userId: number): Promise<AccountProfile> {
+		const profile = await this.db
+			.prepare(
+				`
+				SELECT id, email, is_admin, created_at, updated_at, timezone, subscription_tier, is_active, unsubscribed_at,
+					display_name, leaderboard_opt_out, referral_code, referred_by
+				FROM users
+				WHERE id = ? AND deleted_at IS NULL
+				`
+			)
+			.bind(userId)
+			.first<AccountProfile>();
+
+		if (!profile) {
+			throw new NotFoundError('User not found');
+		}
+		return profile;
+	}
+
+	async exportData(userId: number): Promise<AccountExport> {
+		const profile = await this.getProfile(userId);
+
+		const [reads, streaks, timeline, badges, ledger, streakFreezes, referrals] = await Promise.all([
+			this.db
+				.prepare(
+					`
+					SELECT post_id, read_date, utm_source, utm_medium, utm_campaign, utm_channel
+					FROM reading_stats
+					WHERE user_id = ?
+					ORDER BY read_date ASC
+					`
+				)
+				.bind(userId)
+				.all<ReadEvent>(),
+			this.db.recalculateStreak(userId),
+			this.db.getStreakTimeline(userId),
+			this.badgeService.getUserBadges(userId),
+			this.db.prepare('SELECT * FROM xp_ledger WHERE user_id = ? ORDER BY created_at ASC, id ASC').bind(userId).all<XpLedgerEntry>(),
+			this.db.getStreakFreezes(userId),
+			this.referralService.listReferrals(userId),
+		]);
+
+		const xpEntries = ledger?.results || [];
+
+		return {
+			exported_at: new Date().toISOString(),
+			profile,
+			reads: reads?.results || [],
+			streaks: { ...streaks, timeline },
+			badges,
+			xp: { total: xpEntries.reduce((total, { amount }) => total + amount, 0), ledger: xpEntries },
+			streak_freezes: streakFreezes,
+			referrals,
+		};
+	}
+
+	/**
+	 * Deletes the account after the password is confirmed. Personal data is erased, and the
+	 * reads are kept against an anonymous placeholder user so admin aggregates don't change.
+	 */
+	async deleteAccount(userId: number, password: string): Promise<void> {
+		if (!password?.trim()) {
+			throw new ValidationError('Your password is required to delete your account');
+		}
+
+		const user = await this.db
+			.prepare('SELECT id, email, password_hash FROM users WHERE id = ? AND deleted_at IS NULL')
+			.bind(userId)
+			.first<{ id: number; email: string; password_hash: string | null }>();
+
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		const { valid } = await this.authService.verifyPassword(password, user.password_hash);
+		if (!valid) {
+			throw new ValidationError('Password is incorrect');
+		}
+
+		const timestamp = new Date().toISOString();
+		const placeholderEmail = `deleted-${user.id}@deleted.invalid`;
+
+		await this.db.batch([
+			this.db.prepare('DELETE FROM refresh_tokens WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM password_reset_tokens WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM user_badges WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM xp_ledger WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM streak_freeze_events WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM leaderboard_entries WHERE user_id = ?').bind(userId),
+			this.db.prepare('DELETE FROM leaderboard_snapshots'),
+			this.db.prepare('UPDATE webhook_events SET email = ? WHERE email = ?').bind(placeholderEmail, user.email),
+			// Streaks and reads stay so getAdminStats and getHistoricalStats keep their totals
+			this.db
+				.prepare(
+					`
+					UPDATE users SET
+						email = ?,
+						password_hash = NULL,
+						is_admin = 0,
+						timezone = NULL,
+						display_name = NULL,
+						leaderboard_opt_out = 1,
+						referral_code = NULL,
+						beehiiv_subscriber_id = NULL,
+						subscription_tier = NULL,
+						streak_freezes = 0,
+						is_active = 0,
+						unsubscribed_at = COALESCE(unsubscribed_at, ?),
+						deactivated_at = ?,
+						deleted_at = ?,
+						updated_at = ?
+					WHERE id = ?
+					`
+				)
+				.bind(placeholderEmail, timestamp, timestamp, timestamp, timestamp, userId),
+		]);
+	}
+}
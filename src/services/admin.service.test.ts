@@ -0,0 +1,89 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AdminService } from './admin.service';
+import { AuthService } from './auth.service';
+import { DatabaseService } from './db.service';
+import { migrate } from '../test-helpers';
+import { Env } from '../types';
+
+describe('AdminService on D1', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+	const admin = new AdminService(db, new AuthService(db, { JWT_SECRET: 'test-secret' } as Env));
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, is_admin, current_streak, highest_streak, created_at) VALUES
+					(1, 'admin@thenews.example', 1, 0, 0, '2024-03-01 12:00:00'),
+					(2, 'reader@example.com', 0, 3, 3, '2024-03-02 12:00:00'),
+					(3, 'other@example.com', 0, 0, 0, '2024-03-03 12:00:00')
+				`
+			),
+			env.DB.prepare(
+				"INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_1'), ('2024-03-19', 'post_2'), ('2024-03-20', 'post_3')"
+			),
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(2, 'post_1', '2024-03-18 12:00:00'),
+					(2, 'post_2', '2024-03-19 12:00:00'),
+					(2, 'post_3', '2024-03-20 12:00:00'),
+					(3, 'post_3', '2024-03-20 12:00:00')
+				`
+			),
+		]);
+	});
+
+	async function getAuditRows() {
+		const result = await env.DB.prepare('SELECT admin_id, user_id, action, reason, details FROM admin_audit_log ORDER BY id').all();
+		return result.results;
+	}
+
+	it('should only sort and order users by allowed values', async () => {
+		await expect(admin.listUsers({ sort: 'email; DROP TABLE users' })).rejects.toThrow('Invalid sort: "email; DROP TABLE users"');
+		await expect(admin.listUsers({ order: 'sideways' })).rejects.toThrow('Order must be either asc or desc');
+
+		const byReads = await admin.listUsers({ sort: 'total_reads', order: 'ASC' });
+		expect(byReads.users.map((user) => user.id)).toEqual([1, 3, 2]);
+		expect(byReads.total).toBe(3);
+
+		const search = await admin.listUsers({ search: 'reader@' });
+		expect(search.users.map((user) => user.email)).toEqual(['reader@example.com']);
+	});
+
+	it('should not let admins demote or deactivate themselves', async () => {
+		await expect(admin.setAdmin(1, 1, false)).rejects.toThrow('You cannot change your own admin privileges');
+		await expect(admin.setActive(1, 1, false)).rejects.toThrow('You cannot deactivate your own account');
+		expect(await getAuditRows()).toEqual([]);
+
+		await admin.setAdmin(1, 3, true, ' Editor ');
+		expect(await getAuditRows()).toEqual([
+			{ admin_id: 1, user_id: 3, action: 'set_admin', reason: 'Editor', details: JSON.stringify({ from: false, to: true }) },
+		]);
+	});
+
+	it('should store a streak adjustment as an offset on the current run and audit it', async () => {
+		await expect(admin.adjustStreak(1, 2, { current_streak: 5, reason: '' })).rejects.toThrow('A reason is required to adjust streaks');
+
+		const streaks = await admin.adjustStreak(1, 2, { current_streak: 5, highest_streak: 5, reason: 'Outage' });
+		expect(streaks).toMatchObject({ current_streak: 5, highest_streak: 5 });
+
+		const stored = await env.DB.prepare('SELECT streak_adjustment, streak_adjustment_run FROM users WHERE id = 2').first();
+		expect(stored).toEqual({ streak_adjustment: 2, streak_adjustment_run: '2024-03-18' });
+
+		// Later recalculations keep the adjustment
+		expect(await db.recalculateStreak(2)).toMatchObject({ current_streak: 5 });
+
+		expect(await getAuditRows()).toEqual([
+			{
+				admin_id: 1,
+				user_id: 2,
+				action: 'adjust_streak',
+				reason: 'Outage',
+				details: JSON.stringify({ from: { current_streak: 3, highest_streak: 3 }, to: { current_streak: 5, highest_streak: 5 } }),
+			},
+		]);
+	});
+});
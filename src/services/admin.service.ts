@@ -0,0 +1,254 @@
+import { DatabaseService } from './db.service';
+import { AuthService } from './auth.service';
+import {
+	AdminAuditAction,
+	AdminAuditEntry,
+	AdminPasswordReset,
+	AdminUserList,
+	AdminUserProfile,
+	ReadEvent,
+	AdminUserSummary,
+	ForbiddenError,
+	NotFoundError,
+	StreakAdjustmentRequest,
+	StreakResult,
+	ValidationError,
+} from '../types';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Columns users can be sorted by, mapped to their SQL expression
+const SORT_COLUMNS: Record<string, string> = {
+	created_at: 'u.created_at',
+	email: 'u.email',
+	current_streak: 'u.current_streak',
+	highest_streak: 'u.highest_streak',
+	last_read_date: 'u.last_read_date',
+	total_reads: 'total_reads',
+};
+
+const USER_SUMMARY_COLUMNS = `
+	u.id, u.email, u.is_admin, u.is_active, u.deactivated_at, u.current_streak, u.highest_streak,
+	u.last_read_date, u.created_at,
+	(SELECT COUNT(*) FROM reading_stats r WHERE r.user_id = u.id) as total_reads`;
+
+export class AdminService {
+	constructor(private db: DatabaseService, private authService: AuthService) {}
+
+	async listUsers(query: { search?: string; page?: number; limit?: number; sort?: string; order?: string }): Promise<AdminUserList> {
+		const page = Math.max(Math.floor(query.page || 1), 1);
+		const limit = Math.min(Math.max(Math.floor(query.limit || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+		const sort = query.sort || 'created_at';
+		if (!SORT_COLUMNS[sort]) {
+			throw new ValidationError(`Invalid sort: "${sort}". Use one of: ${Object.keys(SORT_COLUMNS).join(', ')}`);
+		}
+
+		const order = (query.order || 'desc').toLowerCase();
+		if (order !== 'asc' && order !== 'desc') {
+			throw new ValidationError('Order must be either asc or desc');
+		}
+
+		const search = query.search?.trim();
+		const where = search ? 'WHERE u.email LIKE ? OR u.display_name LIKE ?' : '';
+		const params = search ? [`%${search}%`, `%${search}%`] : [];
+
+		const [users, total] = await Promise.all([
+			this.db
+				.prepare(
+					`
+					SELECT ${USER_SUMMARY_COLUMNS}
+					FROM users u
+					${where}
+					ORDER BY ${SORT_COLUMNS[sort]} ${order.toUpperCase()}, u.id ${order.toUpperCase()}
+					LIMIT ? OFFSET ?
+					`
+				)
+				.bind(...params, limit, (page - 1) * limit)
+				.all<AdminUserSummary>(),
+			this.db
+				.prepare(`SELECT COUNT(*) as total FROM users u ${where}`)
+				.bind(...params)
+				.first<{ total: number }>(),
+		]);
+
+		return { users: users?.results || [], page, limit, total: total?.total || 0 };
+	}
+
+	async getUserProfile(userId: number): Promise<AdminUserProfile> {
+		const user = await this.db
+			.prepare(
+				`
+				SELECT ${USER_SUMMARY_COLUMNS},
+					u.password_hash IS NOT NULL as has_password,
+					u.timezone, u.subscription_tier, u.unsubscribed_at, u.display_name, u.streak_freezes, u.referred_by
+				FROM users u
+				WHERE u.id = ?
+				`
+			)
+			.bind(userId)
+			.first<Omit<AdminUserProfile, 'reads' | 'streak_timeline' | 'audit_log'>>();
+
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		const [reads, streakTimeline, auditLog] = await Promise.all([
+			this.db
+				.prepare(
+					`
+					SELECT post_id, read_date, utm_source, utm_medium, utm_campaign, utm_channel
+					FROM reading_stats
+					WHERE user_id = ?
+					ORDER BY read_date DESC
+					`
+				)
+				.bind(userId)
+				.all<ReadEvent>(),
+			this.db.getStreakTimeline(userId),
+			this.getAuditLog(userId),
+		]);
+
+		return {
+			...user,
+			has_password: Boolean(user.has_password),
+			reads: reads?.results || [],
+			streak_timeline: streakTimeline,
+			audit_log: auditLog,
+		};
+	}
+
+	async getAuditLog(userId: number): Promise<AdminAuditEntry[]> {
+		const result = await this.db
+			.prepare(
+				`
+				SELECT l.id, l.admin_id, a.email as admin_email, l.user_id, l.action, l.reason, l.details, l.created_at
+				FROM admin_audit_log l
+				LEFT JOIN users a ON a.id = l.admin_id
+				WHERE l.user_id = ?
+				ORDER BY l.created_at DESC, l.id DESC
+				`
+			)
+			.bind(userId)
+			.all<Omit<AdminAuditEntry, 'details'> & { details: string | null }>();
+
+		return (result?.results || []).map((entry) => ({ ...entry, details: entry.details ? JSON.parse(entry.details) : null }));
+	}
+
+	async setAdmin(adminId: number, userId: number, isAdmin: boolean, reason?: string): Promise<AdminUserProfile> {
+		if (typeof isAdmin !== 'boolean') {
+			throw new ValidationError('is_admin must be true or false');
+		}
+
+		if (adminId === userId) {
+			throw new ForbiddenError('You cannot change your own admin privileges');
+		}
+
+		const user = await this.getUser(userId);
+		await this.db.batch([
+			this.db.prepare('UPDATE users SET is_admin = ?, updated_at = ? WHERE id = ?').bind(isAdmin ? 1 : 0, new Date().toISOString(), userId),
+			this.auditStatement(adminId, userId, 'set_admin', reason, { from: Boolean(user.is_admin), to: isAdmin }),
+		]);
+
+		return this.getUserProfile(userId);
+	}
+
+	/**
+	 * Deactivating an account blocks login and ends every session. It is separate from
+	 * `is_active`, which follows the newsletter subscription.
+	 */
+	async setActive(adminId: number, userId: number, active: boolean, reason?: string): Promise<AdminUserProfile> {
+		if (typeof active !== 'boolean') {
+			throw new ValidationError('active must be true or false');
+		}
+
+		if (adminId === userId && !active) {
+			throw new ForbiddenError('You cannot deactivate your own account');
+		}
+
+		const user = await this.getUser(userId);
+		const timestamp = new Date().toISOString();
+
+		await this.db.batch([
+			this.db
+				.prepare('UPDATE users SET deactivated_at = ?, updated_at = ? WHERE id = ?')
+				.bind(active ? null : timestamp, timestamp, userId),
+			this.auditStatement(adminId, userId, 'set_active', reason, { from: !user.deactivated_at, to: active }),
+		]);
+
+		if (!active) {
+			await this.authService.revokeAllForUser(userId);
+		}
+
+		return this.getUserProfile(userId);
+	}
+
+	/**
+	 * Clears the password, ends every session and issues a single-use reset token. Until the token
+	 * is used, registration can't set a password for the account, so only its holder can.
+	 */
+	async forcePasswordReset(adminId: number, userId: number, reason?: string): Promise<AdminPasswordReset> {
+		await this.getUser(userId);
+
+		await this.db.batch([
+			this.db.prepare('UPDATE users SET password_hash = NULL, updated_at = ? WHERE id = ?').bind(new Date().toISOString(), userId),
+			this.auditStatement(adminId, userId, 'password_reset', reason, null),
+		]);
+		await this.authService.revokeAllForUser(userId);
+		const resetToken = await this.authService.createPasswordResetToken(userId);
+
+		return { ...(await this.getUserProfile(userId)), ...resetToken };
+	}
+
+	async adjustStreak(adminId: number, userId: number, adjustment: StreakAdjustmentRequest): Promise<StreakResult> {
+		const { current_streak, highest_streak, reason } = adjustment;
+
+		if (!reason?.trim()) {
+			throw new ValidationError('A reason is required to adjust streaks');
+		}
+
+		if (current_streak === undefined && highest_streak === undefined) {
+			throw new ValidationError('current_streak or highest_streak is required to adjust streaks');
+		}
+
+		for (const value of [current_streak, highest_streak]) {
+			if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+				throw new ValidationError('Streaks must be non-negative integers');
+			}
+		}
+
+		const user = await this.getUser(userId);
+		if ((highest_streak ?? user.highest_streak) < (current_streak ?? user.current_streak)) {
+			throw new ValidationError('The highest streak cannot be lower than the current streak');
+		}
+
+		const streaks = await this.db.setStreaks(userId, { current_streak, highest_streak });
+
+		await this.auditStatement(adminId, userId, 'adjust_streak', reason, {
+			from: { current_streak: user.current_streak, highest_streak: user.highest_streak },
+			to: { current_streak: streaks.current_streak, highest_streak: streaks.highest_streak },
+		}).run();
+
+		return streaks;
+	}
+
+	private async getUser(userId: number) {
+		const user = await this.db
+			.prepare('SELECT id, is_admin, deactivated_at, current_streak, highest_streak FROM users WHERE id = ?')
+			.bind(userId)
+			.first<{ id: number; is_admin: number; deactivated_at: string | null; current_streak: number; highest_streak: number }>();
+
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		return user;
+	}
+
+	private auditStatement(adminId: number, userId: number, action: AdminAuditAction, reason: string | undefined, details: unknown) {
+		return this.db
+			.prepare('INSERT INTO admin_audit_log (admin_id, user_id, action, reason, details) VALUES (?, ?, ?, ?, ?)')
+			.bind(adminId, userId, action, reason?.trim() || null, details === null ? null : JSON.stringify(details));
+	}
+}
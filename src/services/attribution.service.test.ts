@@ -0,0 +1,93 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { AttributionQueryRow, AttributionService, buildAttribution } from './attribution.service';
+import { DatabaseService } from './db.service';
+import { migrate } from '../test-helpers';
+
+function row(
+	dimension: AttributionQueryRow['dimension'],
+	value: string | null,
+	reads: number,
+	pivot_value: string | null = null
+): AttributionQueryRow {
+	return {
+		dimension,
+		value,
+		pivot_value,
+		is_pivot: pivot_value === null ? 0 : 1,
+		reads,
+		unique_readers: reads,
+		new_readers: 1,
+		avg_downstream_streak: 10 / 3,
+	};
+}
+
+describe('buildAttribution', () => {
+	it('should sort values by reads and nest pivot rows', () => {
+		const report = buildAttribution(
+			[
+				row('total', null, 6),
+				row('source', 'instagram', 2),
+				row('source', 'tiktok', 4),
+				row('source', 'tiktok', 3, 'launch'),
+				row('source', 'tiktok', 1, 'weekly'),
+				row('source', 'instagram', 2, 'launch'),
+			],
+			['source'],
+			'campaign'
+		);
+
+		expect(report.totals).toEqual({ reads: 6, unique_readers: 6, new_readers: 1, avg_downstream_streak: 3.33 });
+		expect(report.dimensions.source?.map(({ value }) => value)).toEqual(['tiktok', 'instagram']);
+		expect(report.dimensions.source?.[0].breakdown?.map(({ value, reads }) => ({ value, reads }))).toEqual([
+			{ value: 'launch', reads: 3 },
+			{ value: 'weekly', reads: 1 },
+		]);
+	});
+
+	it('should keep combinations that share a value apart', () => {
+		const report = buildAttribution(
+			[row('source', 'tiktok', 4), row('source', 'tiktok', 3, 'launch'), row('source', 'tiktok', 1, 'weekly')],
+			['source'],
+			'campaign'
+		);
+
+		expect(report.dimensions.source?.[0].reads).toBe(4);
+		expect(report.dimensions.source?.[0].breakdown).toHaveLength(2);
+	});
+
+	it('should not pivot a dimension by itself', () => {
+		const report = buildAttribution([row('source', 'tiktok', 4)], ['source'], 'source');
+
+		expect(report.dimensions.source?.[0].breakdown).toBeUndefined();
+		expect(report.totals.avg_downstream_streak).toBeNull();
+	});
+});
+
+describe('AttributionService on D1', () => {
+	it('should filter by the largest allowed list of post ids', async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare("INSERT INTO users (id, email) VALUES (1, 'reader@example.com')"),
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date, utm_source) VALUES
+					(1, 'post_1', '2024-03-18 12:00:00', 'email'),
+					(1, 'post_2', '2024-03-19 12:00:00', 'instagram'),
+					(1, 'post_3', '2024-03-20 12:00:00', 'email')
+				`
+			),
+		]);
+
+		const postIds = ['post_1', 'post_3', ...Array.from({ length: 98 }, (_, i) => `missing_${i}`)];
+		const report = await new AttributionService(new DatabaseService(env.DB)).getReport({
+			startDate: '2024-03-01',
+			endDate: '2024-03-31',
+			postIds,
+			dimension: 'source',
+		});
+
+		expect(report.totals.reads).toBe(2);
+		expect(report.dimensions.source).toMatchObject([{ value: 'email', reads: 2 }]);
+	});
+});
@@ -0,0 +1,150 @@
+import { DatabaseService } from './db.service';
+import { addDays } from './timezone.service';
+import { AttributionMetrics, AttributionReport, AttributionRow, UtmDimension, ValidationError } from '../types';
+
+export const UTM_DIMENSIONS: UtmDimension[] = ['source', 'medium', 'campaign', 'channel'];
+
+// Default report range when no dates are given
+const DEFAULT_RANGE_DAYS = 30;
+
+const MAX_POST_IDS = 100;
+
+export interface AttributionQueryRow extends AttributionMetrics {
+	// 'total', or the dimension the row is grouped by
+	dimension: UtmDimension | 'total';
+	value: string | null;
+	// Set on pivot rows, which are grouped by dimension × pivot
+	pivot_value: string | null;
+	is_pivot: number;
+}
+
+function roundMetrics<T extends AttributionMetrics>(row: T): AttributionMetrics {
+	return {
+		reads: row.reads,
+		unique_readers: row.unique_readers,
+		new_readers: row.new_readers,
+		avg_downstream_streak: row.avg_downstream_streak === null ? null : Math.round(row.avg_downstream_streak * 100) / 100,
+	};
+}
+
+/**
+ * Nests the grouped query rows into the report: one list per dimension, sorted by reads,
+ * with the pivot rows as each value's breakdown.
+ */
+export function buildAttribution(
+	rows: AttributionQueryRow[],
+	dimensions: UtmDimension[],
+	pivot: UtmDimension | null
+): Pick<AttributionReport, 'totals' | 'dimensions'> {
+	const byReads = (a: AttributionRow, b: AttributionRow) => b.reads - a.reads || String(a.value).localeCompare(String(b.value));
+	const total = rows.find((row) => row.dimension === 'total');
+
+	const report: Pick<AttributionReport, 'totals' | 'dimensions'> = {
+		totals: total ? roundMetrics(total) : { reads: 0, unique_readers: 0, new_readers: 0, avg_downstream_streak: null },
+		dimensions: {},
+	};
+
+	for (const dimension of dimensions) {
+		const dimensionRows = rows.filter((row) => row.dimension === dimension);
+
+		report.dimensions[dimension] = dimensionRows
+			.filter((row) => !row.is_pivot)
+			.map((row) => {
+				const result: AttributionRow = { value: row.value, ...roundMetrics(row) };
+				if (pivot && pivot !== dimension) {
+					result.breakdown = dimensionRows
+						.filter((pivotRow) => pivotRow.is_pivot && pivotRow.value === row.value)
+						.map((pivotRow) => ({ value: pivotRow.pivot_value, ...roundMetrics(pivotRow) }))
+						.sort(byReads);
+				}
+				return result;
+			})
+			.sort(byReads);
+	}
+
+	return report;
+}
+
+/**
+ * UTM attribution across posts and dates, for deciding where marketing spend goes.
+ */
+export class AttributionService {
+	constructor(private db: DatabaseService) {}
+
+	async getReport(
+		options: { startDate?: string; endDate?: string; postIds?: string[]; dimension?: string; pivot?: string } = {}
+	): Promise<AttributionReport> {
+		for (const value of [options.dimension, options.pivot]) {
+			if (value && !UTM_DIMENSIONS.includes(value as UtmDimension)) {
+				throw new ValidationError(`Invalid UTM dimension: "${value}". Use one of: ${UTM_DIMENSIONS.join(', ')}`);
+			}
+		}
+
+		const postIds = options.postIds?.length ? options.postIds : null;
+		if (postIds && postIds.length > MAX_POST_IDS) {
+			throw new ValidationError(`At most ${MAX_POST_IDS} post ids can be compared at once`);
+		}
+
+		const endDate = options.endDate || (await this.db.getToday());
+		const startDate = options.startDate || addDays(endDate, -(DEFAULT_RANGE_DAYS - 1));
+		if (startDate > endDate) {
+			throw new ValidationError('startDate must be before endDate');
+		}
+
+		const dimensions = options.dimension ? [options.dimension as UtmDimension] : UTM_DIMENSIONS;
+		const pivot = (options.pivot as UtmDimension) || null;
+
+		const metrics = `
+			COUNT(*) as reads,
+			COUNT(DISTINCT user_id) as unique_readers,
+			SUM(CASE WHEN read_number = 1 THEN 1 ELSE 0 END) as new_readers,
+			AVG(CASE WHEN read_number = 1 THEN highest_streak END) as avg_downstream_streak`;
+
+		const groupings = [
+			`SELECT 'total' as dimension, NULL as value, NULL as pivot_value, 0 as is_pivot, ${metrics} FROM filtered`,
+			...dimensions.map(
+				(dimension) =>
+					`SELECT '${dimension}', utm_${dimension}, NULL, 0, ${metrics} FROM filtered GROUP BY utm_${dimension}`
+			),
+			...dimensions
+				.filter((dimension) => pivot && pivot !== dimension)
+				.map(
+					(dimension) =>
+						`SELECT '${dimension}', utm_${dimension}, utm_${pivot}, 1, ${metrics} FROM filtered GROUP BY utm_${dimension}, utm_${pivot}`
+				),
+		];
+
+		const result = await this.db
+			.prepare(
+				`
+				WITH ranked AS (
+					SELECT
+						r.*,
+						ROW_NUMBER() OVER (PARTITION BY r.user_id ORDER BY r.read_date ASC, r.id ASC) as read_number
+					FROM reading_stats r
+				),
+				filtered AS (
+					SELECT ranked.*, u.highest_streak
+					FROM ranked
+					JOIN users u ON u.id = ranked.user_id
+					WHERE u.email != 'admin@example.com'
+					AND date(ranked.read_date) >= date(?)
+					AND date(ranked.read_date) <= date(?)
+					${postIds ? 'AND ranked.post_id IN (SELECT value FROM json_each(?))' : ''}
+				)
+				${groupings.join('\nUNION ALL\n')}
+				`
+			)
+			// The post ids go in as one JSON parameter to stay within D1's bind limit
+			.bind(startDate, endDate, ...(postIds ? [JSON.stringify(postIds)] : []))
+			.all<AttributionQueryRow>();
+
+		return {
+			start_date: startDate,
+			end_date: endDate,
+			post_ids: postIds,
+			pivot,
+			...buildAttribution(result?.results || [], dimensions, pivot),
+		};
+	}
+}
@@ -0,0 +1,107 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuthService } from './auth.service';
+import { DatabaseService } from './db.service';
+import { Env } from '../types';
+import { migrate } from '../test-helpers';
+
+describe('AuthService', () => {
+	let authService: AuthService;
+
+	beforeEach(() => {
+		const mockDb = {
+			prepare: vi.fn(() => ({
+				bind: vi.fn(() => ({
+					run: vi.fn().mockResolvedValue({ meta: { last_row_id: 1 } }),
+					first: vi.fn().mockResolvedValue(null),
+				})),
+			})),
+		};
+
+		authService = new AuthService(mockDb as unknown as DatabaseService, { JWT_SECRET: 'test-secret' } as Env);
+	});
+
+	it('should verify tokens it issued', async () => {
+		const { token, refresh_token } = await authService.issueTokens(42, 'reader@example.com');
+
+		expect(token.split('.')).toHaveLength(3);
+		expect(refresh_token).not.toBe(token);
+		expect(await authService.verifyToken(token)).toEqual({ userId: 42, email: 'reader@example.com' });
+	});
+
+	it('should reject tampered tokens', async () => {
+		const { token } = await authService.issueTokens(42, 'reader@example.com');
+		const [header, , signature] = token.split('.');
+		const forgedBody = btoa(JSON.stringify({ sub: '1', email: 'admin@example.com', type: 'access', exp: 9999999999 }))
+			.replace(/\+/g, '-')
+			.replace(/\//g, '_')
+			.replace(/=+$/, '');
+
+		expect(await authService.verifyToken(`${header}.${forgedBody}.${signature}`)).toBeNull();
+		expect(await authService.verifyToken(btoa(JSON.stringify({ userId: 1, exp: Date.now() + 1000 })))).toBeNull();
+	});
+
+	it('should reject tokens signed with another secret', async () => {
+		const other = new AuthService(authService['db'], { JWT_SECRET: 'other-secret' } as Env);
+		const { token } = await other.issueTokens(42, 'reader@example.com');
+
+		expect(await authService.verifyToken(token)).toBeNull();
+	});
+
+	it('should reject unknown refresh tokens', async () => {
+		await expect(authService.refresh('not-a-token')).rejects.toThrow('Invalid refresh token');
+	});
+
+	it('should hash passwords with a per-user salt', async () => {
+		const first = await authService.hashPassword('secret');
+		const second = await authService.hashPassword('secret');
+
+		expect(first).toMatch(/^pbkdf2-sha256\$100000\$[\w-]+\$[\w-]+$/);
+		expect(first).not.toBe(second);
+		expect(await authService.verifyPassword('secret', first)).toEqual({ valid: true, needsRehash: false });
+		expect(await authService.verifyPassword('wrong', first)).toEqual({ valid: false, needsRehash: false });
+	});
+
+	it('should accept legacy SHA-256 hashes and flag them for rehashing', async () => {
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode('secret'));
+		const legacyHash = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+		expect(await authService.verifyPassword('secret', legacyHash)).toEqual({ valid: true, needsRehash: true });
+		expect(await authService.verifyPassword('wrong', legacyHash)).toEqual({ valid: false, needsRehash: false });
+	});
+});
+
+describe('password resets on D1', () => {
+	const authService = new AuthService(new DatabaseService(env.DB), { JWT_SECRET: 'test-secret' } as Env);
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.prepare("INSERT INTO users (id, email, password_hash) VALUES (1, 'reader@example.com', NULL)").run();
+	});
+
+	it('should let the token set the password only once', async () => {
+		const { reset_token } = await authService.createPasswordResetToken(1);
+		expect(await authService.hasPendingPasswordReset(1)).toBe(true);
+
+		const { tokens, user } = await authService.resetPassword(reset_token, 'new-secret');
+		expect(user).toMatchObject({ id: 1, email: 'reader@example.com' });
+		expect(await authService.verifyToken(tokens.token)).toEqual({ userId: 1, email: 'reader@example.com' });
+		expect(await authService.hasPendingPasswordReset(1)).toBe(false);
+
+		const { password_hash } = (await env.DB.prepare('SELECT password_hash FROM users WHERE id = 1').first<{ password_hash: string }>())!;
+		expect(await authService.verifyPassword('new-secret', password_hash)).toMatchObject({ valid: true });
+
+		await expect(authService.resetPassword(reset_token, 'another-secret')).rejects.toThrow('Invalid password reset token');
+	});
+
+	it('should replace earlier tokens and reject expired ones', async () => {
+		const first = await authService.createPasswordResetToken(1);
+		const second = await authService.createPasswordResetToken(1);
+
+		await expect(authService.resetPassword(first.reset_token, 'new-secret')).rejects.toThrow('Invalid password reset token');
+
+		await env.DB.prepare("UPDATE password_reset_tokens SET expires_at = '2024-01-01T00:00:00.000Z'").run();
+		await expect(authService.resetPassword(second.reset_token, 'new-secret')).rejects.toThrow('Password reset token has expired');
+		expect(await authService.hasPendingPasswordReset(1)).toBe(true);
+	});
+});
@@ -0,0 +1,307 @@
+import { DatabaseService } from './db.service';
+import { AuthTokens, Env, ForbiddenError, TokenPayload, UnauthenticatedError } from '../types';
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const PASSWORD_RESET_TOKEN_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+// Workers caps PBKDF2 at 100k iterations, so this is both the default and the maximum
+const DEFAULT_PASSWORD_HASH_ITERATIONS = 100_000;
+const PASSWORD_SALT_BYTES = 16;
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(data: ArrayBuffer | Uint8Array | string): string {
+	const bytes = typeof data === 'string' ? encoder.encode(data) : new Uint8Array(data);
+	let binary = '';
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+	const binary = atob(base64);
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function sha256(value: string): Promise<string> {
+	const hash = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+	return base64UrlEncode(hash);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+	const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+	return base64UrlEncode(bits);
+}
+
+// Unsalted SHA-256 used before PBKDF2, kept only to verify and upgrade old hashes
+async function legacySha256(password: string): Promise<string> {
+	const hash = await crypto.subtle.digest('SHA-256', encoder.encode(password));
+	return btoa(String.fromCharCode(...new Uint8Array(hash)));
+}
+
+export class AuthService {
+	private signingKey?: Promise<CryptoKey>;
+
+	constructor(private db: DatabaseService, private env: Env) {}
+
+	private get passwordHashIterations(): number {
+		const iterations = Number(this.env.PASSWORD_HASH_ITERATIONS);
+		if (!Number.isInteger(iterations) || iterations <= 0) {
+			return DEFAULT_PASSWORD_HASH_ITERATIONS;
+		}
+		return Math.min(iterations, DEFAULT_PASSWORD_HASH_ITERATIONS);
+	}
+
+	/**
+	 * Hashes a password as `pbkdf2-sha256$<iterations>$<salt>$<hash>` with a random per-user salt.
+	 */
+	async hashPassword(password: string): Promise<string> {
+		const iterations = this.passwordHashIterations;
+		const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+		const hash = await pbkdf2(password, salt, iterations);
+		return [PASSWORD_HASH_ALGORITHM, iterations, base64UrlEncode(salt), hash].join('$');
+	}
+
+	/**
+	 * Checks a password against a stored hash. `needsRehash` is set when the stored hash
+	 * uses the legacy SHA-256 format or an outdated iteration count.
+	 */
+	async verifyPassword(password: string, storedHash: string | null): Promise<{ valid: boolean; needsRehash: boolean }> {
+		if (!storedHash) {
+			return { valid: false, needsRehash: false };
+		}
+
+		if (!storedHash.includes('$')) {
+			const valid = timingSafeEqual(await legacySha256(password), storedHash);
+			return { valid, needsRehash: valid };
+		}
+
+		const [algorithm, iterationsPart, salt, hash] = storedHash.split('$');
+		const iterations = Number(iterationsPart);
+		if (algorithm !== PASSWORD_HASH_ALGORITHM || !Number.isInteger(iterations) || !salt || !hash) {
+			return { valid: false, needsRehash: false };
+		}
+
+		const valid = timingSafeEqual(await pbkdf2(password, base64UrlDecode(salt), iterations), hash);
+		return { valid, needsRehash: valid && iterations !== this.passwordHashIterations };
+	}
+
+	private getSigningKey(): Promise<CryptoKey> {
+		if (!this.env.JWT_SECRET) {
+			throw new Error('JWT_SECRET is not configured');
+		}
+
+		if (!this.signingKey) {
+			this.signingKey = crypto.subtle.importKey('raw', encoder.encode(this.env.JWT_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, [
+				'sign',
+				'verify',
+			]);
+		}
+		return this.signingKey;
+	}
+
+	private async signJwt(payload: Record<string, unknown>): Promise<string> {
+		const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+		const body = base64UrlEncode(JSON.stringify(payload));
+		const signature = await crypto.subtle.sign('HMAC', await this.getSigningKey(), encoder.encode(`${header}.${body}`));
+		return `${header}.${body}.${base64UrlEncode(signature)}`;
+	}
+
+	async verifyToken(token: string): Promise<TokenPayload | null> {
+		try {
+			const [header, body, signature] = token.split('.');
+			if (!header || !body || !signature) {
+				return null;
+			}
+
+			const { alg } = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+			if (alg !== 'HS256') {
+				return null;
+			}
+
+			const valid = await crypto.subtle.verify('HMAC', await this.getSigningKey(), base64UrlDecode(signature), encoder.encode(`${header}.${body}`));
+			if (!valid) {
+				return null;
+			}
+
+			const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+			if (payload.type !== 'access' || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+				return null;
+			}
+
+			return { userId: Number(payload.sub), email: payload.email };
+		} catch {
+			return null;
+		}
+	}
+
+	async issueTokens(userId: number, email: string): Promise<AuthTokens> {
+		const now = Math.floor(Date.now() / 1000);
+		const accessExp = now + ACCESS_TOKEN_TTL_SECONDS;
+		const refreshExp = now + REFRESH_TOKEN_TTL_SECONDS;
+
+		const token = await this.signJwt({ sub: String(userId), email, type: 'access', iat: now, exp: accessExp });
+
+		// Refresh tokens are opaque random strings; only their hash is stored server-side
+		const refreshToken = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+		await this.db
+			.prepare('INSERT INTO refresh_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)')
+			.bind(userId, await sha256(refreshToken), new Date(refreshExp * 1000).toISOString())
+			.run();
+
+		return {
+			token,
+			token_expires_at: new Date(accessExp * 1000).toISOString(),
+			refresh_token: refreshToken,
+			refresh_token_expires_at: new Date(refreshExp * 1000).toISOString(),
+		};
+	}
+
+	async refresh(refreshToken: string): Promise<{ tokens: AuthTokens; user: { id: number; email: string; is_admin: boolean } }> {
+		const tokenHash = await sha256(refreshToken);
+		const stored = await this.db
+			.prepare(
+				`
+				SELECT t.id, t.user_id, t.expires_at, t.revoked_at, u.email, u.is_admin
+				FROM refresh_tokens t
+				JOIN users u ON u.id = t.user_id
+				WHERE t.token_hash = ?
+				`
+			)
+			.bind(tokenHash)
+			.first<{ id: number; user_id: number; expires_at: string; revoked_at: string | null; email: string; is_admin: boolean }>();
+
+		if (!stored) {
+			throw new UnauthenticatedError('Invalid refresh token');
+		}
+
+		if (stored.revoked_at) {
+			// A rotated token was presented again, so it may have been stolen: revoke the whole family
+			await this.revokeAllForUser(stored.user_id);
+			throw new UnauthenticatedError('Refresh token has already been used. Please login again.');
+		}
+
+		if (new Date(stored.expires_at).getTime() < Date.now()) {
+			throw new UnauthenticatedError('Refresh token has expired. Please login again.');
+		}
+
+		const tokens = await this.issueTokens(stored.user_id, stored.email);
+		await this.db
+			.prepare('UPDATE refresh_tokens SET revoked_at = ?, replaced_by = ? WHERE id = ?')
+			.bind(new Date().toISOString(), await sha256(tokens.refresh_token), stored.id)
+			.run();
+
+		return { tokens, user: { id: stored.user_id, email: stored.email, is_admin: stored.is_admin } };
+	}
+
+	async revokeAllForUser(userId: number): Promise<void> {
+		await this.db
+			.prepare('UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+			.bind(new Date().toISOString(), userId)
+			.run();
+	}
+
+	/**
+	 * Issues a single-use password reset token, replacing any unused one. Like refresh tokens,
+	 * only its hash is stored.
+	 */
+	async createPasswordResetToken(userId: number): Promise<{ reset_token: string; reset_token_expires_at: string }> {
+		const resetToken = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+		const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_SECONDS * 1000).toISOString();
+
+		await this.db.batch([
+			this.db.prepare('DELETE FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL').bind(userId),
+			this.db
+				.prepare('INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)')
+				.bind(userId, await sha256(resetToken), expiresAt),
+		]);
+
+		return { reset_token: resetToken, reset_token_expires_at: expiresAt };
+	}
+
+	/**
+	 * Whether the user has a reset token that was never used, expired or not. Such accounts
+	 * can only get a password through the token, never through registration.
+	 */
+	async hasPendingPasswordReset(userId: number): Promise<boolean> {
+		const pending = await this.db
+			.prepare('SELECT 1 FROM password_reset_tokens WHERE user_id = ? AND used_at IS NULL LIMIT 1')
+			.bind(userId)
+			.first();
+		return !!pending;
+	}
+
+	/**
+	 * Sets a new password with a reset token and signs the user in. The token can only be used once.
+	 */
+	async resetPassword(
+		resetToken: string,
+		password: string
+	): Promise<{ tokens: AuthTokens; user: { id: number; email: string; is_admin: boolean } }> {
+		const stored = await this.db
+			.prepare(
+				`
+				SELECT t.id, t.user_id, t.expires_at, t.used_at, u.email, u.is_admin, u.deactivated_at
+				FROM password_reset_tokens t
+				JOIN users u ON u.id = t.user_id
+				WHERE t.token_hash = ?
+				`
+			)
+			.bind(await sha256(resetToken))
+			.first<{
+				id: number;
+				user_id: number;
+				expires_at: string;
+				used_at: string | null;
+				email: string;
+				is_admin: boolean;
+				deactivated_at: string | null;
+			}>();
+
+		if (!stored || stored.used_at) {
+			throw new UnauthenticatedError('Invalid password reset token');
+		}
+
+		if (new Date(stored.expires_at).getTime() < Date.now()) {
+			throw new UnauthenticatedError('Password reset token has expired. Please ask for a new one.');
+		}
+
+		if (stored.deactivated_at) {
+			throw new ForbiddenError('This account has been deactivated. Please contact support.');
+		}
+
+		// Claim the token before using it, so two concurrent requests can't both set a password
+		const timestamp = new Date().toISOString();
+		const claimed = await this.db
+			.prepare('UPDATE password_reset_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL')
+			.bind(timestamp, stored.id)
+			.run();
+		if (!claimed.meta.changes) {
+			throw new UnauthenticatedError('Invalid password reset token');
+		}
+
+		await this.db
+			.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
+			.bind(await this.hashPassword(password), timestamp, stored.user_id)
+			.run();
+
+		const tokens = await this.issueTokens(stored.user_id, stored.email);
+		return { tokens, user: { id: stored.user_id, email: stored.email, is_admin: stored.is_admin } };
+	}
+}
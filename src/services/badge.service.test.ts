@@ -0,0 +1,92 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BadgeService } from './badge.service';
+import { DatabaseService } from './db.service';
+import { migrate } from '../test-helpers';
+
+describe('BadgeService on D1', () => {
+	const badges = new BadgeService(new DatabaseService(env.DB, 'America/Sao_Paulo'));
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email) VALUES
+					(1, 'frozen@example.com'),
+					(2, 'perfect@example.com'),
+					(3, 'avid@example.com')
+				`
+			),
+			// February 2024 has seven editions, one a day
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 7)
+				INSERT INTO editions (edition_date, post_id) SELECT printf('2024-02-%02d', i), 'post_' || i FROM n
+				`
+			),
+			// The first reader missed the 4th edition but covered it with a streak freeze
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 7)
+				INSERT INTO reading_stats (user_id, post_id, read_date)
+				SELECT user_id, 'post_' || i, printf('2024-02-%02d 12:00:00', i) FROM n, (SELECT 1 as user_id UNION SELECT 2)
+				WHERE NOT (user_id = 1 AND i = 4)
+				`
+			),
+			env.DB.prepare("INSERT INTO streak_freeze_events (user_id, type, amount, edition_date) VALUES (1, 'used', 1, '2024-02-04')"),
+			// The third reader read 50 posts that weren't editions, one an hour
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 50)
+				INSERT INTO reading_stats (user_id, post_id, read_date)
+				SELECT 3, 'extra_' || i, datetime('2024-01-01', '+' || (i - 1) || ' hours') FROM n
+				`
+			),
+		]);
+	});
+
+	async function awardedBadges(userId: number) {
+		const result = await env.DB
+			.prepare('SELECT badge_id, awarded_at FROM user_badges WHERE user_id = ? ORDER BY badge_id')
+			.bind(userId)
+			.all();
+		return result.results;
+	}
+
+	it('should award each rule at the moment it was first met', async () => {
+		expect(await badges.evaluate(2)).toEqual(['first-read', 'streak-7', 'perfect-month']);
+		expect(await awardedBadges(2)).toEqual([
+			{ badge_id: 'first-read', awarded_at: '2024-02-01 12:00:00' },
+			{ badge_id: 'perfect-month', awarded_at: '2024-02-07' },
+			{ badge_id: 'streak-7', awarded_at: '2024-02-07 12:00:00' },
+		]);
+
+		expect(await badges.evaluate(3)).toEqual(['first-read', 'reads-50']);
+		expect(await awardedBadges(3)).toEqual([
+			{ badge_id: 'first-read', awarded_at: '2024-01-01 00:00:00' },
+			{ badge_id: 'reads-50', awarded_at: '2024-01-03 01:00:00' },
+		]);
+	});
+
+	it('should count frozen editions for streaks but not for a perfect month', async () => {
+		expect(await badges.evaluate(1)).toEqual(['first-read', 'streak-7']);
+	});
+
+	it('should not award a badge twice', async () => {
+		await badges.evaluate(2);
+
+		expect(await badges.evaluate(2)).toEqual([]);
+		expect(await awardedBadges(2)).toHaveLength(3);
+	});
+
+	it('should backfill every reader and be safe to run again', async () => {
+		expect(await badges.backfill()).toEqual({ users: 3, awarded: 7 });
+		expect(await badges.backfill()).toEqual({ users: 3, awarded: 0 });
+
+		expect(await awardedBadges(1)).toEqual([
+			{ badge_id: 'first-read', awarded_at: '2024-02-01 12:00:00' },
+			{ badge_id: 'streak-7', awarded_at: '2024-02-07 12:00:00' },
+		]);
+	});
+});
@@ -0,0 +1,200 @@
+import { DatabaseService, readDaySql } from './db.service';
+import { toLocalDay } from './timezone.service';
+import { findStreakMilestone } from './streak.engine';
+import { Badge, EarnedBadge } from '../types';
+
+// A read with the edition day it counts for (see readDaySql)
+interface BadgeRead {
+	read_date: string;
+	day: string;
+}
+
+const BACKFILL_PAGE_SIZE = 500;
+
+export class BadgeService {
+	constructor(private db: DatabaseService) {}
+
+	async getCatalog(): Promise<Badge[]> {
+		const result = await this.db.prepare('SELECT id, name, description, rule_type, threshold FROM badges ORDER BY sort_order ASC').all<Badge>();
+		return result?.results || [];
+	}
+
+	async getUserBadges(userId?: number, email?: string): Promise<EarnedBadge[]> {
+		const result = await this.db
+			.prepare(
+				`
+				SELECT b.id, b.name, b.description, ub.awarded_at
+				FROM user_badges ub
+				JOIN badges b ON b.id = ub.badge_id
+				JOIN users u ON u.id = ub.user_id
+				WHERE ${userId ? 'u.id = ?' : 'u.email = ?'}
+				ORDER BY ub.awarded_at ASC
+				`
+			)
+			.bind(userId || email)
+			.all<EarnedBadge>();
+		return result?.results || [];
+	}
+
+	/**
+	 * Evaluates every badge rule against the user's full reading history and awards
+	 * the ones that are met. `awarded_at` is the moment the rule was first satisfied,
+	 * so running this over old data (backfill) gives the same result as live evaluation.
+	 * Returns the ids of badges awarded by this call.
+	 */
+	async evaluate(userId: number): Promise<string[]> {
+		const awarded = await this.evaluateUsers([userId]);
+		return awarded.get(userId) || [];
+	}
+
+	/**
+	 * Re-evaluates every user that has at least one read, a page of users at a time.
+	 * Safe to run repeatedly.
+	 */
+	async backfill(): Promise<{ users: number; awarded: number }> {
+		let users = 0;
+		let awarded = 0;
+		let lastUserId = 0;
+		let userIds: number[];
+
+		do {
+			const page = await this.db
+				.prepare('SELECT DISTINCT user_id FROM reading_stats WHERE user_id > ? ORDER BY user_id LIMIT ?')
+				.bind(lastUserId, BACKFILL_PAGE_SIZE)
+				.all<{ user_id: number }>();
+			userIds = (page?.results || []).map((row) => row.user_id);
+
+			for (const badgeIds of (await this.evaluateUsers(userIds)).values()) {
+				awarded += badgeIds.length;
+			}
+			users += userIds.length;
+			lastUserId = userIds[userIds.length - 1];
+		} while (userIds.length === BACKFILL_PAGE_SIZE);
+
+		return { users, awarded };
+	}
+
+	/**
+	 * `evaluate` for several users, loading their histories and awarding badges in a fixed
+	 * number of queries. Returns the ids of badges awarded by this call, per user.
+	 */
+	private async evaluateUsers(userIds: number[]): Promise<Map<number, string[]>> {
+		const awarded = new Map<number, string[]>();
+		if (userIds.length === 0) {
+			return awarded;
+		}
+
+		// The ids go in as one JSON parameter, so a page isn't bounded by D1's bind limit
+		const ids = JSON.stringify(userIds);
+		const [catalog, readsResult, editionDays, frozenResult] = await Promise.all([
+			this.getCatalog(),
+			this.db
+				.prepare(
+					`
+					SELECT r.user_id, r.read_date, ${readDaySql()} as day FROM reading_stats r
+					WHERE r.user_id IN (SELECT value FROM json_each(?))
+					ORDER BY r.user_id, r.read_date ASC
+					`
+				)
+				.bind(ids)
+				.all<BadgeRead & { user_id: number }>(),
+			this.getEditionDays(),
+			this.db
+				.prepare(
+					"SELECT user_id, edition_date FROM streak_freeze_events WHERE user_id IN (SELECT value FROM json_each(?)) AND type = 'used'"
+				)
+				.bind(ids)
+				.all<{ user_id: number; edition_date: string }>(),
+		]);
+
+		const readsByUser = new Map<number, BadgeRead[]>();
+		for (const { user_id, ...read } of readsResult?.results || []) {
+			if (!readsByUser.has(user_id)) {
+				readsByUser.set(user_id, []);
+			}
+			readsByUser.get(user_id)!.push(read);
+		}
+		const frozenByUser = new Map<number, Set<string>>();
+		for (const { user_id, edition_date } of frozenResult?.results || []) {
+			frozenByUser.set(user_id, (frozenByUser.get(user_id) || new Set()).add(edition_date));
+		}
+
+		const achievements: { userId: number; badgeId: string; achievedAt: string }[] = [];
+		for (const [userId, reads] of readsByUser) {
+			awarded.set(userId, []);
+			for (const badge of catalog) {
+				const achievedAt = this.findAchievedAt(badge, reads, editionDays, frozenByUser.get(userId) || new Set());
+				if (achievedAt) {
+					achievements.push({ userId, badgeId: badge.id, achievedAt });
+				}
+			}
+		}
+
+		if (achievements.length === 0) {
+			return awarded;
+		}
+
+		const insert = this.db.prepare('INSERT OR IGNORE INTO user_badges (user_id, badge_id, awarded_at) VALUES (?, ?, ?)');
+		const results = await this.db.batch(achievements.map(({ userId, badgeId, achievedAt }) => insert.bind(userId, badgeId, achievedAt)));
+
+		achievements.forEach(({ userId, badgeId }, i) => {
+			if (results[i]?.meta?.changes) {
+				awarded.get(userId)!.push(badgeId);
+			}
+		});
+
+		return awarded;
+	}
+
+	// When the user first met the badge's rule, or null if they haven't
+	private findAchievedAt(badge: Badge, reads: BadgeRead[], editionDays: string[], frozenDays: Set<string>): string | null {
+		switch (badge.rule_type) {
+			case 'first_read':
+			case 'total_reads':
+				return reads[(badge.threshold || 1) - 1]?.read_date ?? null;
+			case 'streak':
+				return this.findStreakAchievedAt(reads, editionDays, frozenDays, badge.threshold || 1);
+			case 'perfect_month':
+				return this.findPerfectMonth(reads, editionDays);
+			default:
+				return null;
+		}
+	}
+
+	private findStreakAchievedAt(reads: BadgeRead[], editionDays: string[], frozenDays: Set<string>, threshold: number): string | null {
+		const milestone = findStreakMilestone([...reads.map((read) => read.day), ...frozenDays], editionDays, threshold);
+		if (!milestone) {
+			return null;
+		}
+
+		// Award at the first read of the milestone day (the day itself if it was covered by a freeze)
+		return reads.find((read) => read.day === milestone)?.read_date ?? milestone;
+	}
+
+	// A month is perfect when the user read on every edition day of a month that has already ended
+	private findPerfectMonth(reads: BadgeRead[], editionDays: string[]): string | null {
+		const readDays = new Set(reads.map((read) => read.day));
+		const currentMonth = toLocalDay(new Date(), this.db.getUserTimezone()).slice(0, 7);
+		const months = new Map<string, string[]>();
+
+		for (const day of editionDays) {
+			const month = day.slice(0, 7);
+			if (month < currentMonth) {
+				months.set(month, [...(months.get(month) || []), day]);
+			}
+		}
+
+		for (const days of months.values()) {
+			if (days.every((day) => readDays.has(day))) {
+				return days[days.length - 1];
+			}
+		}
+
+		return null;
+	}
+
+	private async getEditionDays(): Promise<string[]> {
+		const result = await this.db.prepare('SELECT edition_date FROM editions ORDER BY edition_date ASC').all<{ edition_date: string }>();
+		return (result?.results || []).map((row) => row.edition_date);
+	}
+}
@@ -0,0 +1,56 @@
+import { PostMetadata } from '../types';
+
+/**
+ * What the worker needs from Beehiiv. Injected into the services that use it, so tests can pass a local fake.
+ */
+export interface BeehiivClient {
+	// Resolves to null when Beehiiv doesn't know the post; throws when Beehiiv can't be reached
+	getPost(postId: string): Promise<PostMetadata | null>;
+}
+
+interface BeehiivPostBody {
+	id?: string;
+	title?: string;
+	slug?: string;
+	web_url?: string;
+	// Unix timestamp in seconds
+	publish_date?: number | string | null;
+}
+
+/**
+ * Normalizes a `GET /posts/:id` body, which may or may not be wrapped in `data`.
+ */
+export function parseBeehiivPost(postId: string, body: BeehiivPostBody & { data?: BeehiivPostBody }): PostMetadata {
+	const post = body.data ?? body;
+
+	let publishDate: string | null = null;
+	if (typeof post.publish_date === 'number') {
+		publishDate = new Date(post.publish_date * 1000).toISOString();
+	} else if (post.publish_date && !isNaN(Date.parse(post.publish_date))) {
+		publishDate = new Date(post.publish_date).toISOString();
+	}
+
+	return {
+		post_id: postId,
+		title: post.title || null,
+		slug: post.slug || null,
+		web_url: post.web_url || null,
+		publish_date: publishDate,
+	};
+}
+
+export class HttpBeehiivClient implements BeehiivClient {
+	constructor(private apiUrl: string) {}
+
+	async getPost(postId: string): Promise<PostMetadata | null> {
+		const response = await fetch(`${this.apiUrl}/posts/${encodeURIComponent(postId)}`);
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw new Error(`Beehiiv responded with ${response.status} for post ${postId}`);
+		}
+
+		return parseBeehiivPost(postId, await response.json());
+	}
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildCohorts } from './cohort.service';
+
+describe('buildCohorts', () => {
+	it('should group members by the Monday of their anchor week', () => {
+		const cohorts = buildCohorts(
+			[
+				{ anchor: '2024-03-04', weeks: [1, 2] },
+				{ anchor: '2024-03-10', weeks: [1] },
+				{ anchor: '2024-03-11', weeks: [] },
+			],
+			'week',
+			'2024-06-30'
+		);
+
+		expect(cohorts.map(({ cohort, users }) => ({ cohort, users }))).toEqual([
+			{ cohort: '2024-03-04', users: 2 },
+			{ cohort: '2024-03-11', users: 1 },
+		]);
+		expect(cohorts[0].retention[0]).toEqual({ week: 1, eligible: 2, retained: 2, rate: 100 });
+		expect(cohorts[0].retention[1]).toEqual({ week: 2, eligible: 2, retained: 1, rate: 50 });
+	});
+
+	it('should only count weeks that are over', () => {
+		// Week 1 of a member anchored on Mar 4 ends on Mar 17
+		const [cohort] = buildCohorts([{ anchor: '2024-03-04', weeks: [1] }], 'month', '2024-03-17');
+
+		expect(cohort.cohort).toBe('2024-03-01');
+		expect(cohort.retention[0]).toEqual({ week: 1, eligible: 0, retained: 0, rate: null });
+		expect(buildCohorts([{ anchor: '2024-03-04', weeks: [1] }], 'month', '2024-03-18')[0].retention[0].rate).toBe(100);
+	});
+});
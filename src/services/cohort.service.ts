@@ -0,0 +1,139 @@
+import { DatabaseService } from './db.service';
+import { addDays, startOfPeriod } from './timezone.service';
+import { Cohort, CohortBy, CohortPeriod, CohortReport, ValidationError } from '../types';
+
+const COHORT_BY: CohortBy[] = ['signup', 'first_read'];
+const PERIODS: CohortPeriod[] = ['week', 'month'];
+
+// Weeks after a member's signup / first read that the report checks for reads
+export const RETENTION_WEEKS = [1, 2, 4, 8, 12];
+
+export interface CohortMember {
+	// Signup or first-read day (YYYY-MM-DD); week 0 starts on this day
+	anchor: string;
+	// Weeks since the anchor in which the member read at least once
+	weeks: number[];
+}
+
+/**
+ * Groups members into cohorts by the week or month of their anchor day. Week N of a member
+ * covers days 7N to 7N+6 after their own anchor, and only counts once it is over.
+ */
+export function buildCohorts(members: CohortMember[], period: CohortPeriod, today: string): Cohort[] {
+	const groups = new Map<string, CohortMember[]>();
+	for (const member of members) {
+		const cohort = startOfPeriod(period, member.anchor);
+		groups.set(cohort, [...(groups.get(cohort) || []), member]);
+	}
+
+	return [...groups.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([cohort, cohortMembers]) => ({
+			cohort,
+			users: cohortMembers.length,
+			retention: RETENTION_WEEKS.map((week) => {
+				const eligible = cohortMembers.filter(({ anchor }) => addDays(anchor, 7 * (week + 1)) <= today);
+				const retained = eligible.filter(({ weeks }) => weeks.includes(week)).length;
+
+				return {
+					week,
+					eligible: eligible.length,
+					retained,
+					rate: eligible.length ? Math.round((retained / eligible.length) * 10000) / 100 : null,
+				};
+			}),
+		}));
+}
+
+/**
+ * Retention of subscribers grouped by when they signed up or first read, for the admin heatmap.
+ */
+export class CohortService {
+	constructor(private db: DatabaseService) {}
+
+	async getRetention(
+		options: { cohortBy?: string; period?: string; utmSource?: string; startDate?: string; endDate?: string } = {}
+	): Promise<CohortReport> {
+		const cohortBy = (options.cohortBy || 'signup') as CohortBy;
+		if (!COHORT_BY.includes(cohortBy)) {
+			throw new ValidationError(`Invalid cohort_by: "${cohortBy}". Use one of: ${COHORT_BY.join(', ')}`);
+		}
+
+		const period = (options.period || 'week') as CohortPeriod;
+		if (!PERIODS.includes(period)) {
+			throw new ValidationError(`Invalid period: "${period}". Use one of: ${PERIODS.join(', ')}`);
+		}
+
+		const conditions = ['m.anchor IS NOT NULL'];
+		const params: string[] = [];
+
+		if (options.utmSource) {
+			conditions.push('m.first_source = ?');
+			params.push(options.utmSource);
+		}
+
+		if (options.startDate) {
+			conditions.push('m.anchor >= date(?)');
+			params.push(options.startDate);
+		}
+
+		if (options.endDate) {
+			conditions.push('m.anchor <= date(?)');
+			params.push(options.endDate);
+		}
+
+		const weekOffset = 'CAST((julianday(date(r.read_date)) - julianday(m.anchor)) / 7 AS INTEGER)';
+
+		const result = await this.db
+			.prepare(
+				`
+				WITH first_reads AS (
+					SELECT user_id, MIN(read_date) as first_read
+					FROM reading_stats
+					GROUP BY user_id
+				),
+				members AS (
+					SELECT
+						u.id as user_id,
+						${cohortBy === 'signup' ? 'date(u.created_at)' : 'date(f.first_read)'} as anchor,
+						(
+							SELECT r.utm_source
+							FROM reading_stats r
+							WHERE r.user_id = u.id
+							ORDER BY r.read_date ASC, r.id ASC
+							LIMIT 1
+						) as first_source
+					FROM users u
+					LEFT JOIN first_reads f ON f.user_id = u.id
+					WHERE u.email != 'admin@example.com'
+				)
+				SELECT m.user_id, m.anchor, ${weekOffset} as week
+				FROM members m
+				LEFT JOIN reading_stats r ON r.user_id = m.user_id
+					AND date(r.read_date) >= m.anchor
+					AND ${weekOffset} IN (${RETENTION_WEEKS.join(', ')})
+				WHERE ${conditions.join(' AND ')}
+				GROUP BY m.user_id, week
+				`
+			)
+			.bind(...params)
+			.all<{ user_id: number; anchor: string; week: number | null }>();
+
+		const members = new Map<number, CohortMember>();
+		for (const row of result?.results || []) {
+			const member = members.get(row.user_id) || { anchor: row.anchor, weeks: [] };
+			if (row.week !== null) {
+				member.weeks.push(row.week);
+			}
+			members.set(row.user_id, member);
+		}
+
+		return {
+			cohort_by: cohortBy,
+			period,
+			utm_source: options.utmSource || null,
+			weeks: RETENTION_WEEKS,
+			cohorts: buildCohorts([...members.values()], period, await this.db.getToday()),
+		};
+	}
+}
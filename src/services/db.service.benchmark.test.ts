@@ -0,0 +1,75 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DatabaseService } from './db.service';
+import { migrate } from '../test-helpers';
+
+// Latency target of the admin dashboard endpoints at 50k readers (see Admin Statistics in API_DOCUMENTATION.md)
+const LATENCY_TARGET_MS = 500;
+
+const USERS = 50_000;
+const EDITIONS = 180;
+
+const range = { startDate: '2024-06-01', endDate: '2024-06-28' };
+
+/**
+ * Runs `query` once to warm up, then returns how long a second run took. Clocks in workerd only
+ * advance on I/O, which is all these queries do.
+ */
+async function measure(query: () => Promise<unknown>): Promise<number> {
+	await query();
+	const start = Date.now();
+	await query();
+	return Date.now() - start;
+}
+
+describe('admin dashboard at 50k readers', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+
+	beforeAll(async () => {
+		await migrate(env.DB);
+
+		// Daily editions from 2024-01-01, and readers who signed up over 150 days and read
+		// up to 29 consecutive editions from their signup day (about 725k reads)
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+				INSERT INTO editions (edition_date, post_id)
+				SELECT date('2024-01-01', '+' || (i - 1) || ' days'), 'post_' || i FROM n
+				`
+			).bind(EDITIONS),
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+				INSERT INTO users (email, current_streak, created_at)
+				SELECT 'reader' || i || '@example.com', i % 40, date('2024-01-01', '+' || (i % 150) || ' days') FROM n
+				`
+			).bind(USERS),
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(k) AS (SELECT 0 UNION ALL SELECT k + 1 FROM n WHERE k < 29)
+				INSERT INTO reading_stats (user_id, post_id, read_date)
+				SELECT u.id, e.post_id, e.edition_date || ' 08:00:00'
+				FROM users u
+				JOIN n ON n.k < u.id % 30
+				JOIN editions e ON e.edition_date = date(u.created_at, '+' || n.k || ' days')
+				`
+			),
+		]);
+
+		await db.rebuildReadAggregates();
+	}, 120_000);
+
+	it('should answer the admin stats within the latency target', async () => {
+		const stats = await db.getAdminStats(range);
+
+		expect(stats.total_users).toBe(USERS);
+		expect(stats.active_users).toBeGreaterThan(0);
+		expect(await measure(() => db.getAdminStats(range))).toBeLessThan(LATENCY_TARGET_MS);
+	});
+
+	it('should answer the top readers within the latency target', async () => {
+		expect(await db.getTopReaders(range)).toHaveLength(10);
+		expect(await measure(() => db.getTopReaders(range))).toBeLessThan(LATENCY_TARGET_MS);
+	});
+});
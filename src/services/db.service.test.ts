@@ -0,0 +1,220 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatabaseService, decodeHistoryCursor, encodeHistoryCursor } from './db.service';
+import { migrate } from '../test-helpers';
+
+describe('history cursors', () => {
+	it('should round-trip the last read of a page', () => {
+		const read = { date: '2024-03-20 08:15:00', id: 42 };
+
+		expect(decodeHistoryCursor(encodeHistoryCursor(read))).toEqual(read);
+	});
+
+	it('should reject cursors it did not issue', () => {
+		expect(() => decodeHistoryCursor('not a cursor')).toThrow('Invalid history cursor');
+		expect(() => decodeHistoryCursor(btoa('position:3'))).toThrow('Invalid history cursor');
+		expect(() => decodeHistoryCursor(btoa('read|2024-03-20 08:15:00|0'))).toThrow('Invalid history cursor');
+	});
+});
+
+describe('reading history on D1', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare("INSERT INTO users (id, email) VALUES (1, 'reader@example.com'), (2, 'other@example.com')"),
+			// Three of the reads share a read_date, so only the id tells them apart
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (id, user_id, post_id, read_date) VALUES
+					(1, 1, 'post_1', '2024-03-17 23:59:59'),
+					(2, 1, 'post_2', '2024-03-18 00:00:00'),
+					(3, 1, 'post_3', '2024-03-19 12:00:00'),
+					(4, 1, 'post_4', '2024-03-19 12:00:00'),
+					(5, 1, 'post_5', '2024-03-19 12:00:00'),
+					(6, 1, 'post_6', '2024-03-20 23:59:59'),
+					(7, 1, 'post_7', '2024-03-21 00:00:00'),
+					(8, 2, 'post_8', '2024-03-19 12:00:00')
+				`
+			),
+		]);
+	});
+
+	it('should page through reads that share a read_date without overlaps or gaps', async () => {
+		const postIds: string[] = [];
+		let cursor: string | null = null;
+		let pages = 0;
+		do {
+			const page = await db.getUserReadingHistory(1, undefined, { limit: 2, cursor });
+			postIds.push(...page.entries.map((read) => read.post_id));
+			cursor = page.next_cursor;
+			pages++;
+		} while (cursor);
+
+		expect(pages).toBe(4);
+		expect(postIds).toEqual(['post_7', 'post_6', 'post_5', 'post_4', 'post_3', 'post_2', 'post_1']);
+	});
+
+	it('should include reads on both the start and the end day', async () => {
+		const history = await db.getUserReadingHistory(undefined, 'reader@example.com', { startDate: '2024-03-18', endDate: '2024-03-20' });
+
+		expect(history.entries.map((read) => read.date)).toEqual([
+			'2024-03-20 23:59:59',
+			'2024-03-19 12:00:00',
+			'2024-03-19 12:00:00',
+			'2024-03-19 12:00:00',
+			'2024-03-18 00:00:00',
+		]);
+		expect(history.next_cursor).toBeNull();
+	});
+
+	it('should clamp the page size', async () => {
+		await env.DB.prepare(
+			`
+			WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 250)
+			INSERT INTO reading_stats (user_id, post_id, read_date) SELECT 1, 'extra_' || i, datetime('2024-01-01', '+' || i || ' hours') FROM n
+			`
+		).run();
+
+		const largest = await db.getUserReadingHistory(1, undefined, { limit: 1000 });
+		expect(largest.entries).toHaveLength(200);
+		expect(largest.next_cursor).not.toBeNull();
+
+		expect((await db.getUserReadingHistory(1)).entries).toHaveLength(50);
+		expect((await db.getUserReadingHistory(1, undefined, { limit: -5 })).entries).toHaveLength(1);
+	});
+});
+
+describe('streaks on D1', () => {
+	it('should count a read for the edition of its post, whatever the reader\'s timezone', async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare("INSERT INTO users (email, timezone) VALUES ('reader@example.com', 'Asia/Tokyo')"),
+			env.DB.prepare("INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_1'), ('2024-03-19', 'post_2')"),
+			// Both editions were read in the evening in São Paulo, which is the next morning in Tokyo
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(1, 'post_1', '2024-03-19 09:00:00'),
+					(1, 'post_2', '2024-03-20 09:00:00')
+				`
+			),
+		]);
+
+		const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+
+		expect(await db.recalculateStreak(1)).toMatchObject({ current_streak: 2, highest_streak: 2 });
+		expect(await db.getPreviousReadDay(1, '2024-03-19')).toBe('2024-03-18');
+	});
+
+	it('should recalculate the stored streaks of every reader', async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, current_streak, highest_streak) VALUES
+					(1, 'both@example.com', 0, 0),
+					(2, 'frozen@example.com', 0, 0),
+					(3, 'lapsed@example.com', 4, 4)
+				`
+			),
+			env.DB.prepare("INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_1'), ('2024-03-19', 'post_2')"),
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(1, 'post_1', '2024-03-18 12:00:00'),
+					(1, 'post_2', '2024-03-19 12:00:00'),
+					(2, 'post_1', '2024-03-18 12:00:00'),
+					(3, 'post_1', '2024-03-18 12:00:00')
+				`
+			),
+			env.DB.prepare("INSERT INTO streak_freeze_events (user_id, type, amount, edition_date) VALUES (2, 'used', 1, '2024-03-19')"),
+		]);
+
+		const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+
+		expect(await db.recalculateAllStreaks()).toEqual({ users: 3 });
+
+		const users = await env.DB.prepare('SELECT id, current_streak, highest_streak, last_read_date FROM users ORDER BY id').all();
+		expect(users.results).toEqual([
+			{ id: 1, current_streak: 2, highest_streak: 2, last_read_date: '2024-03-19 12:00:00' },
+			{ id: 2, current_streak: 2, highest_streak: 2, last_read_date: '2024-03-18 12:00:00' },
+			{ id: 3, current_streak: 0, highest_streak: 4, last_read_date: '2024-03-18 12:00:00' },
+		]);
+	});
+});
+
+describe('admin statistics on D1', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+	const range = { startDate: '2024-03-10', endDate: '2024-03-15' };
+
+	async function seed() {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, current_streak, created_at) VALUES
+					(1, 'before@example.com', 1, '2024-03-01 12:00:00'),
+					(2, 'during@example.com', 1, '2024-03-01 12:00:00'),
+					(3, 'joined@example.com', 2, '2024-03-10 12:00:00')
+				`
+			),
+			env.DB.prepare(
+				"INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-05', 'post_1'), ('2024-03-12', 'post_2'), ('2024-03-19', 'post_3')"
+			),
+			// The first reader read before and after the range, but not in it
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(1, 'post_1', '2024-03-05 08:00:00'),
+					(1, 'post_3', '2024-03-19 08:00:00'),
+					(2, 'post_2', '2024-03-12 08:00:00'),
+					(3, 'post_2', '2024-03-13 08:00:00'),
+					(3, 'post_3', '2024-03-19 08:00:00')
+				`
+			),
+		]);
+		await db.rebuildReadAggregates();
+	}
+
+	it('should only count readers and reads inside the range', async () => {
+		await seed();
+
+		expect(await db.getAdminStats(range)).toMatchObject({
+			start_date: '2024-03-10',
+			end_date: '2024-03-15',
+			total_users: 3,
+			active_users: 2,
+			total_reads: 2,
+			avg_streak: 1.5,
+			// post_2 was read by 2 of the 3 subscribers, one of them the day after it came out
+			avg_opening_rate: 66.67,
+		});
+	});
+
+	it('should rank top readers by their reads in the range', async () => {
+		await seed();
+
+		const readers = await db.getTopReaders(range);
+
+		expect(readers.map(({ email, total_reads, opening_rate }) => ({ email, total_reads, opening_rate }))).toEqual([
+			{ email: 'joined@example.com', total_reads: 1, opening_rate: 100 },
+			{ email: 'during@example.com', total_reads: 1, opening_rate: 100 },
+		]);
+	});
+});
+
+describe('readers on D1', () => {
+	it('should treat emails that only differ in case as the same reader', async () => {
+		await migrate(env.DB);
+		const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+
+		const first = await db.recordRead({ email: 'Reader@Example.com', post_id: 'post_1' });
+		const second = await db.recordRead({ email: ' reader@example.com ', post_id: 'post_2' });
+
+		expect(second.id).toBe(first.id);
+		expect(first.email).toBe('reader@example.com');
+		expect(await env.DB.prepare('SELECT COUNT(*) as reads FROM reading_stats WHERE user_id = ?').bind(first.id).first('reads')).toBe(2);
+	});
+});
@@ -1,55 +1,136 @@
-import { User, WebhookData, ValidationError, UserStats, AdminStats, AdminStatsFilters, PostStats, ReadingHistory } from '../types';
+import {
+	User,
+	WebhookData,
+	ValidationError,
+	UserStats,
+	AdminStats,
+	AdminStatsFilters,
+	TopReader,
+	PostStats,
+	ReadingHistory,
+	ReadingHistoryFilters,
+	ReadingHistoryPage,
+	StreakFreezeEvent,
+	StreakFreezeSummary,
+	Edition,
+	EditionRequest,
+	StreakResult,
+	StreakRun,
+} from '../types';
+import { addDays, isValidTimezone, resolveTimezone, toLocalDateTime, toLocalDay } from './timezone.service';
+import { computeStreaks, getCurrentRun } from './streak.engine';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+const STREAK_RECALCULATION_PAGE_SIZE = 500;
+
+/**
+ * History cursors point at the last read of a page, newest first: its read_date and id.
+ */
+export function encodeHistoryCursor(read: { date: string; id: number }): string {
+	return btoa(`read|${read.date}|${read.id}`);
+}
 
-export interface Database {
-	prepare: (query: string) => D1PreparedStatement;
-	run: (query: string, params?: any[]) => Promise<D1Result>;
-	all: (query: string, params?: any[]) => Promise<D1Result>;
-	exec: (query: string) => Promise<D1Result[]>;
+export function decodeHistoryCursor(cursor: string): { date: string; id: number } {
+	try {
+		const [prefix, date, value] = atob(cursor).split('|');
+		const id = Number(value);
+		if (prefix === 'read' && date && Number.isInteger(id) && id > 0) {
+			return { date, id };
+		}
+	} catch {
+		// Fall through to the validation error below
+	}
+	throw new ValidationError('Invalid history cursor');
 }
 
-export class DbService {
-	constructor(private db: D1Database) {}
+/**
+ * SQL for the day a read counts for in streaks and reports: the edition of the post it read.
+ * Reads of posts without an edition fall back to the reader's local day. Matching by post keeps
+ * reads in line with the edition calendar, whose days are in the publication's timezone.
+ */
+export function readDaySql(alias = 'r'): string {
+	return `COALESCE((SELECT MIN(edition_date) FROM editions WHERE post_id = ${alias}.post_id), date(${alias}.read_date))`;
+}
 
-	async createUser(username: string) {
-		return this.db.prepare('INSERT INTO users (username) VALUES (?)').bind(username).run();
-	}
+/**
+ * SQL condition for a subscriber counted in the admin totals. Accounts deleted while subscribed
+ * (deleteAccount unsubscribes them at the moment of deletion) still count, so a deletion doesn't
+ * change the totals their reads are part of.
+ */
+export function countedSubscriberSql(alias = 'u'): string {
+	return `(${alias}.is_active = 1 OR ${alias}.unsubscribed_at = ${alias}.deleted_at)`;
+}
 
-	async recordReading(userId: number, pagesRead: number, readDate: string) {
-		return this.db
-			.prepare('INSERT INTO reading_stats (user_id, pages_read, read_date) VALUES (?, ?, ?)')
-			.bind(userId, pagesRead, readDate)
-			.run();
+// The users columns the streak engine reads
+type StreakInputsUser = Pick<User, 'id' | 'timezone' | 'streak_freezes'> & {
+	streak_adjustment: number | null;
+	streak_adjustment_run: string | null;
+};
+
+export class DatabaseService {
+	private db: D1Database;
+	private defaultTimezone?: string;
+
+	constructor(db: D1Database, defaultTimezone?: string) {
+		this.db = db;
+		this.defaultTimezone = defaultTimezone;
 	}
 
-	async getUserStats(userId: number) {
-		return this.db.prepare('SELECT * FROM reading_stats WHERE user_id = ? ORDER BY read_date DESC').bind(userId).all();
+	/**
+	 * Timezone that decides which day a user's reads belong to.
+	 */
+	getUserTimezone(user?: Pick<User, 'timezone'> | null): string {
+		return resolveTimezone(user?.timezone, this.defaultTimezone);
 	}
 
-	async recordRead(data: WebhookData) {
-		return this.db.prepare(`INSERT INTO reads (email, post_id) VALUES (?, ?)`).bind(data.email, data.post_id).run();
+	/**
+	 * Today's date (YYYY-MM-DD) for a user, or for the publication when no user is given.
+	 */
+	async getToday(userId?: number, email?: string): Promise<string> {
+		let user: Pick<User, 'timezone'> | null = null;
+		if (userId || email) {
+			user = await this.db
+				.prepare(`SELECT timezone FROM users WHERE ${userId ? 'id = ?' : 'email = ?'}`)
+				.bind(userId || email)
+				.first<Pick<User, 'timezone'>>();
+		}
+		return toLocalDay(new Date(), this.getUserTimezone(user));
 	}
-}
 
-export class DatabaseService {
-	private db: D1Database;
+	async updateUserTimezone(userId: number, timezone: string | null): Promise<void> {
+		if (timezone !== null && !isValidTimezone(timezone)) {
+			throw new ValidationError(`Invalid timezone: "${timezone}". Use an IANA timezone name (e.g., America/Sao_Paulo)`);
+		}
 
-	constructor(db: D1Database) {
-		this.db = db;
+		await this.db
+			.prepare('UPDATE users SET timezone = ?, updated_at = ? WHERE id = ?')
+			.bind(timezone, new Date().toISOString(), userId)
+			.run();
 	}
 
 	prepare(query: string) {
 		return this.db.prepare(query);
 	}
 
+	batch(statements: D1PreparedStatement[]) {
+		return this.db.batch(statements);
+	}
+
 	private isValidEmail(email: string): boolean {
 		// Regex para validar email
 		const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
 		return emailRegex.test(email);
 	}
 
-	async getOrCreateUser(email: string): Promise<User> {
+	/**
+	 * Finds the user by email, creating them on their first read. Emails are stored trimmed and
+	 * lowercase, so `Reader@example.com` and `reader@example.com` are the same reader.
+	 */
+	async getOrCreateUser(rawEmail: string, referralCode?: string): Promise<User> {
+		const email = rawEmail.trim().toLowerCase();
 		if (!this.isValidEmail(email)) {
-			throw new ValidationError(`Invalid email address: "${email}". Email must be in a valid format (e.g., user@domain.com)`);
+			throw new ValidationError(`Invalid email address: "${rawEmail}". Email must be in a valid format (e.g., user@domain.com)`);
 		}
 
 		let user = await this.db.prepare('SELECT * FROM users WHERE email = ?').bind(email).first<User>();
@@ -61,38 +142,15 @@ export class DatabaseService {
 				.bind(email)
 				.run();
 			user = await this.db.prepare('SELECT * FROM users WHERE email = ?').bind(email).first<User>();
+
+			if (referralCode) {
+				await this.recordReferral(user!.id, referralCode);
+			}
 		}
 
 		return user!;
 	}
 
-	async getLastReadDate(userId: number): Promise<string | null> {
-		const result = await this.db
-			.prepare('SELECT read_date FROM reading_stats WHERE user_id = ? ORDER BY read_date DESC LIMIT 1')
-			.bind(userId)
-			.first<{ read_date: string }>();
-
-		return result?.read_date || null;
-	}
-
-	async updateUserStreak(userId: number, newStreak: number): Promise<void> {
-		await this.db
-			.prepare(
-				`
-				UPDATE users 
-				SET current_streak = ?,
-					highest_streak = CASE 
-						WHEN ? > highest_streak THEN ? 
-						ELSE highest_streak 
-					END,
-					last_read_date = DATE('now')
-				WHERE id = ?
-				`
-			)
-			.bind(newStreak, newStreak, newStreak, userId)
-			.run();
-	}
-
 	async getLastUniquePostRead(userId: number): Promise<{ post_id: string; read_date: string } | null> {
 		const result = await this.db
 			.prepare(
@@ -118,162 +176,502 @@ export class DatabaseService {
 		return !!result;
 	}
 
-	async recordRead(data: WebhookData): Promise<void> {
-		if (!this.isValidEmail(data.email)) {
-			throw new ValidationError(`Invalid email address: "${data.email}". Email must be in a valid format (e.g., user@domain.com)`);
-		}
-
-		// Verifica se é domingo
+	async recordRead(data: WebhookData): Promise<User> {
 		const now = new Date();
-		now.setHours(now.getHours() - 3); // Ajusta para UTC-3
-		if (now.getDay() === 0) {
-			throw new ValidationError(`Reading is not allowed on Sundays`);
-		}
-
-		const user = await this.getOrCreateUser(data.email);
+		const user = await this.getOrCreateUser(data.email, data.referral_code);
 
 		// Check if user has already read this post
 		const hasRead = await this.hasReadPost(user.id, data.post_id);
 		if (hasRead) {
-			return;
+			return user;
+		}
+
+		// The read date is the reader's local wall-clock time, so date(read_date) is their local day
+		const readDate = toLocalDateTime(now, this.getUserTimezone(user));
+		const readDay = readDate.split(' ')[0];
+
+		// Record the new read and bump the dashboard aggregates in the same transaction, so they never drift
+		await this.db.batch([
+			this.db
+				.prepare(
+					`
+					INSERT INTO reading_stats (
+						user_id, post_id, utm_source, utm_medium, 
+						utm_campaign, utm_channel, read_date
+					) VALUES (?, ?, ?, ?, ?, ?, ?)
+				`
+				)
+				.bind(
+					user.id,
+					data.post_id,
+					data.utm_source || null,
+					data.utm_medium || null,
+					data.utm_campaign || null,
+					data.utm_channel || null,
+					readDate
+				),
+			this.db
+				.prepare(
+					`
+					INSERT INTO user_daily_reads (read_day, user_id, reads) VALUES (?, ?, 1)
+					ON CONFLICT(read_day, user_id) DO UPDATE SET reads = reads + 1
+				`
+				)
+				.bind(readDay, user.id),
+			this.db
+				.prepare(
+					`
+					INSERT INTO daily_post_reads (read_day, post_id, reads) VALUES (?, ?, 1)
+					ON CONFLICT(read_day, post_id) DO UPDATE SET reads = reads + 1
+				`
+				)
+				.bind(readDay, data.post_id),
+		]);
+
+		await this.recalculateStreak(user.id);
+
+		return user;
+	}
+
+	/**
+	 * Links a newly created user to the owner of a referral code. Unknown codes and
+	 * self-referrals are ignored so they never block a signup.
+	 */
+	async recordReferral(referredId: number, code: string): Promise<boolean> {
+		const normalizedCode = code.trim().toUpperCase();
+		const referrer = await this.db.prepare('SELECT id FROM users WHERE referral_code = ?').bind(normalizedCode).first<{ id: number }>();
+		if (!referrer || referrer.id === referredId) {
+			return false;
+		}
+
+		const [inserted] = await this.db.batch([
+			this.db
+				.prepare('INSERT OR IGNORE INTO referrals (referrer_id, referred_id, code) VALUES (?, ?, ?)')
+				.bind(referrer.id, referredId, normalizedCode),
+			this.db.prepare('UPDATE users SET referred_by = ? WHERE id = ? AND referred_by IS NULL').bind(referrer.id, referredId),
+		]);
+
+		return Boolean(inserted?.meta?.changes);
+	}
+
+	/**
+	 * Recomputes the user's streaks with the streak engine and stores them on `users`,
+	 * so reports can read the stored values instead of recalculating them.
+	 */
+	async recalculateStreak(userId: number): Promise<StreakResult> {
+		const streaks = await this.recalculateStreaks([userId]);
+		return streaks.get(userId) || { current_streak: 0, highest_streak: 0, past_streaks: [] };
+	}
+
+	/**
+	 * `recalculateStreak` for several users, loading their inputs and writing the results
+	 * in a fixed number of queries however many users are given. `now` decides each user's today.
+	 */
+	async recalculateStreaks(userIds: number[], now = new Date()): Promise<Map<number, StreakResult>> {
+		const inputs = await this.getStreakInputsFor(userIds, now);
+		const results = new Map<number, StreakResult>();
+
+		for (const [userId, { readDays, editions, today, freezes, adjustment }] of inputs) {
+			const streaks = computeStreaks(readDays, editions, today, freezes);
+			const run = getCurrentRun(readDays, editions, today, freezes);
+
+			// A manual adjustment applies to the run it was made on and ends with it
+			if (adjustment.streak_adjustment && adjustment.streak_adjustment_run === run?.start_date) {
+				streaks.current_streak = Math.max(streaks.current_streak + adjustment.streak_adjustment, 0);
+				streaks.highest_streak = Math.max(streaks.highest_streak, streaks.current_streak);
+			}
+
+			results.set(userId, streaks);
+		}
+
+		if (results.size) {
+			const update = this.db.prepare(
+				`
+				UPDATE users 
+				SET current_streak = ?,
+					highest_streak = MAX(COALESCE(highest_streak, 0), ?),
+					last_read_date = (SELECT MAX(read_date) FROM reading_stats WHERE user_id = ?)
+				WHERE id = ?
+				`
+			);
+			await this.db.batch(
+				[...results].map(([userId, streaks]) => update.bind(streaks.current_streak, streaks.highest_streak, userId, userId))
+			);
+		}
+
+		return results;
+	}
+
+	/**
+	 * Overrides a user's stored streaks. The current streak is kept as an offset on the
+	 * running streak so later recalculations don't undo it; it can't be set without one.
+	 * The highest streak never drops below what the reading history supports.
+	 */
+	async setStreaks(userId: number, streaks: { current_streak?: number; highest_streak?: number }): Promise<StreakResult> {
+		if (streaks.current_streak !== undefined) {
+			const { readDays, editions, today, freezes } = await this.getStreakInputs(userId);
+			const run = getCurrentRun(readDays, editions, today, freezes);
+
+			if (!run) {
+				throw new ValidationError('The current streak can only be adjusted while the user has a running streak');
+			}
+
+			await this.db
+				.prepare('UPDATE users SET streak_adjustment = ?, streak_adjustment_run = ?, updated_at = ? WHERE id = ?')
+				.bind(streaks.current_streak - run.length, run.start_date, new Date().toISOString(), userId)
+				.run();
+		}
+
+		if (streaks.highest_streak !== undefined) {
+			await this.db
+				.prepare('UPDATE users SET highest_streak = ?, updated_at = ? WHERE id = ?')
+				.bind(streaks.highest_streak, new Date().toISOString(), userId)
+				.run();
+		}
+
+		return this.recalculateStreak(userId);
+	}
+
+	/**
+	 * Every streak run of the user in order, including the current one.
+	 */
+	async getStreakTimeline(userId: number): Promise<StreakRun[]> {
+		const { readDays, editions, today, freezes } = await this.getStreakInputs(userId);
+		const { past_streaks } = computeStreaks(readDays, editions, today, freezes);
+		const current = getCurrentRun(readDays, editions, today, freezes);
+
+		return current ? [...past_streaks, current] : past_streaks;
+	}
+
+	private async getStreakInputs(userId: number) {
+		const inputs = await this.getStreakInputsFor([userId]);
+		return (
+			inputs.get(userId) || {
+				readDays: [],
+				editions: await this.getEditionDates(),
+				today: await this.getToday(),
+				freezes: 0,
+				adjustment: { streak_adjustment: 0, streak_adjustment_run: null },
+			}
+		);
+	}
+
+	/**
+	 * Streak engine inputs of existing users, keyed by user id. The ids are passed as one
+	 * JSON parameter, so the number of users isn't bounded by D1's bind limit.
+	 */
+	private async getStreakInputsFor(userIds: number[], now = new Date()) {
+		const inputs = new Map<
+			number,
+			{
+				readDays: string[];
+				editions: string[];
+				today: string;
+				// Unspent streak freezes
+				freezes: number;
+				adjustment: { streak_adjustment: number; streak_adjustment_run: string | null };
+			}
+		>();
+		if (!userIds.length) return inputs;
+
+		const ids = JSON.stringify(userIds);
+		const [readDays, editions, users] = await Promise.all([
+			this.db
+				.prepare(
+					`
+					SELECT r.user_id, ${readDaySql()} as day FROM reading_stats r WHERE r.user_id IN (SELECT value FROM json_each(?1))
+					UNION
+					-- Editions covered by a streak freeze count as read
+					SELECT user_id, edition_date as day FROM streak_freeze_events
+					WHERE user_id IN (SELECT value FROM json_each(?1)) AND type = 'used'
+					`
+				)
+				.bind(ids)
+				.all<{ user_id: number; day: string }>(),
+			this.getEditionDates(),
+			this.db
+				.prepare(
+					`
+					SELECT id, timezone, streak_freezes, streak_adjustment, streak_adjustment_run
+					FROM users
+					WHERE id IN (SELECT value FROM json_each(?))
+					`
+				)
+				.bind(ids)
+				.all<StreakInputsUser>(),
+		]);
+
+		for (const user of users?.results || []) {
+			inputs.set(user.id, {
+				readDays: [],
+				editions,
+				today: toLocalDay(now, this.getUserTimezone(user)),
+				freezes: user.streak_freezes ?? 0,
+				adjustment: {
+					streak_adjustment: user.streak_adjustment ?? 0,
+					streak_adjustment_run: user.streak_adjustment_run ?? null,
+				},
+			});
 		}
+		for (const row of readDays?.results || []) {
+			inputs.get(row.user_id)?.readDays.push(row.day);
+		}
+
+		return inputs;
+	}
+
+	/**
+	 * Recalculates the stored streaks of every reader, a page of readers at a time.
+	 */
+	async recalculateAllStreaks(): Promise<{ users: number }> {
+		let users = 0;
+		let lastUserId = 0;
+		let userIds: number[];
+
+		do {
+			const page = await this.db
+				.prepare('SELECT DISTINCT user_id FROM reading_stats WHERE user_id > ? ORDER BY user_id LIMIT ?')
+				.bind(lastUserId, STREAK_RECALCULATION_PAGE_SIZE)
+				.all<{ user_id: number }>();
+			userIds = (page?.results || []).map((row) => row.user_id);
+
+			await this.recalculateStreaks(userIds);
+			users += userIds.length;
+			lastUserId = userIds[userIds.length - 1];
+		} while (userIds.length === STREAK_RECALCULATION_PAGE_SIZE);
+
+		return { users };
+	}
+
+	/**
+	 * Recomputes the dashboard aggregates (user_daily_reads, daily_post_reads) from reading_stats,
+	 * in one transaction. Only needed if they were changed by hand; recordRead keeps them current.
+	 */
+	async rebuildReadAggregates(): Promise<{ user_days: number; post_days: number }> {
+		const [, userDays, , postDays] = await this.db.batch([
+			this.db.prepare('DELETE FROM user_daily_reads'),
+			this.db.prepare(
+				`
+				INSERT INTO user_daily_reads (read_day, user_id, reads)
+				SELECT date(read_date), user_id, COUNT(*)
+				FROM reading_stats
+				GROUP BY date(read_date), user_id
+				`
+			),
+			this.db.prepare('DELETE FROM daily_post_reads'),
+			this.db.prepare(
+				`
+				INSERT INTO daily_post_reads (read_day, post_id, reads)
+				SELECT date(read_date), post_id, COUNT(*)
+				FROM reading_stats
+				GROUP BY date(read_date), post_id
+				`
+			),
+		]);
+
+		return { user_days: userDays?.meta?.changes || 0, post_days: postDays?.meta?.changes || 0 };
+	}
+
+	async getEditionDates(): Promise<string[]> {
+		const result = await this.db.prepare('SELECT edition_date FROM editions ORDER BY edition_date ASC').all<{ edition_date: string }>();
+		return (result?.results || []).map((row) => row.edition_date);
+	}
+
+	async isEditionDay(day: string): Promise<boolean> {
+		const result = await this.db.prepare('SELECT 1 FROM editions WHERE edition_date = ?').bind(day).first();
+		return !!result;
+	}
+
+	/**
+	 * Edition dates strictly between two days (YYYY-MM-DD), oldest first.
+	 */
+	async getEditionDatesBetween(fromDay: string, toDay: string): Promise<string[]> {
+		const result = await this.db
+			.prepare('SELECT edition_date FROM editions WHERE edition_date > ? AND edition_date < ? ORDER BY edition_date ASC')
+			.bind(fromDay, toDay)
+			.all<{ edition_date: string }>();
+
+		return (result?.results || []).map((row) => row.edition_date);
+	}
 
-		// Record the new read
+	/**
+	 * Registers the publish day of a post from the post catalog as an edition, unless the post
+	 * already has one. An edition an admin added for that day without a post gets the post.
+	 */
+	async ensureEdition(day: string, postId: string): Promise<void> {
 		await this.db
 			.prepare(
 				`
-				INSERT INTO reading_stats (
-					user_id, post_id, utm_source, utm_medium, 
-					utm_campaign, utm_channel, read_date
-				) VALUES (?, ?, ?, ?, ?, ?, datetime('now', '-3 hours'))
-			`
+				INSERT INTO editions (edition_date, post_id)
+				SELECT ?, ? WHERE NOT EXISTS (SELECT 1 FROM editions WHERE post_id = ?)
+				ON CONFLICT(edition_date) DO UPDATE SET
+					post_id = excluded.post_id,
+					updated_at = CURRENT_TIMESTAMP
+				WHERE editions.post_id IS NULL
+				`
 			)
-			.bind(user.id, data.post_id, data.utm_source || null, data.utm_medium || null, data.utm_campaign || null, data.utm_channel || null)
+			.bind(day, postId, postId)
 			.run();
+	}
 
-		// Get distinct read dates ordered by date
-		const readDates = await this.db
+	async listEditions(startDate?: string, endDate?: string): Promise<Edition[]> {
+		const result = await this.db
 			.prepare(
 				`
-				SELECT DISTINCT date(read_date) as read_date
-				FROM reading_stats
-				WHERE user_id = ?
-				ORDER BY read_date DESC
+				SELECT edition_date, post_id, note, created_at, updated_at
+				FROM editions
+				WHERE edition_date >= COALESCE(?, edition_date) AND edition_date <= COALESCE(?, edition_date)
+				ORDER BY edition_date DESC
 				`
 			)
-			.bind(user.id)
-			.all();
+			.bind(startDate ?? null, endDate ?? null)
+			.all<Edition>();
 
-		const dates = (readDates?.results || []) as { read_date: string }[];
-		let streak = 0;
-		const today = new Date();
-		today.setHours(today.getHours() - 3); // Ajusta para UTC-3
-		const todayStr = today.toISOString().split('T')[0];
-
-		// Calcula o streak
-		for (let i = 0; i < dates.length; i++) {
-			const currentDate = new Date(dates[i].read_date);
-
-			// Se é o primeiro dia ou se é consecutivo ao anterior
-			if (i === 0) {
-				streak = 1;
-			} else {
-				const prevDate = new Date(dates[i - 1].read_date);
-				const diffDays = Math.floor((prevDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-
-				// Considera consecutivo se for 1 dia de diferença ou se o dia pulado for domingo
-				if (diffDays === 1 || (diffDays === 2 && currentDate.getDay() === 0)) {
-					streak++;
-				} else {
-					break;
-				}
-			}
+		return result?.results || [];
+	}
+
+	async upsertEdition(edition: EditionRequest): Promise<Edition> {
+		const result = await this.db
+			.prepare(
+				`
+				INSERT INTO editions (edition_date, post_id, note)
+				VALUES (?, ?, ?)
+				ON CONFLICT(edition_date) DO UPDATE SET
+					post_id = excluded.post_id,
+					note = excluded.note,
+					updated_at = CURRENT_TIMESTAMP
+				RETURNING edition_date, post_id, note, created_at, updated_at
+				`
+			)
+			.bind(edition.edition_date, edition.post_id ?? null, edition.note ?? null)
+			.first<Edition>();
+
+		return result!;
+	}
+
+	async deleteEdition(day: string): Promise<boolean> {
+		const result = await this.db.prepare('DELETE FROM editions WHERE edition_date = ?').bind(day).run();
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * The edition day of a post, or null when it has no edition.
+	 */
+	async getPostEditionDay(postId: string): Promise<string | null> {
+		const result = await this.db
+			.prepare('SELECT MIN(edition_date) as edition_date FROM editions WHERE post_id = ?')
+			.bind(postId)
+			.first<{ edition_date: string | null }>();
+
+		return result?.edition_date || null;
+	}
+
+	async getPreviousReadDay(userId: number, beforeDay: string): Promise<string | null> {
+		const result = await this.db
+			.prepare(`SELECT MAX(day) as read_day FROM (SELECT ${readDaySql()} as day FROM reading_stats r WHERE r.user_id = ?) WHERE day < ?`)
+			.bind(userId, beforeDay)
+			.first<{ read_day: string | null }>();
+
+		return result?.read_day || null;
+	}
+
+	/**
+	 * Spends one of the user's freezes to cover a missed edition. Returns false when the
+	 * user has no freezes left or the edition was already covered.
+	 */
+	async useStreakFreeze(userId: number, editionDate: string): Promise<boolean> {
+		const result = await this.db
+			.prepare(
+				`
+				INSERT OR IGNORE INTO streak_freeze_events (user_id, type, amount, edition_date)
+				SELECT id, 'used', -1, ? FROM users WHERE id = ? AND streak_freezes > 0
+				`
+			)
+			.bind(editionDate, userId)
+			.run();
+
+		if (!result.meta.changes) {
+			return false;
 		}
 
-		// Update user streak
-		await this.db
+		await this.db.prepare('UPDATE users SET streak_freezes = streak_freezes - 1 WHERE id = ?').bind(userId).run();
+		return true;
+	}
+
+	/**
+	 * Adds freezes to the user's inventory. `reference` makes automatic awards idempotent,
+	 * and `cap` limits the inventory size (admin grants are not capped).
+	 */
+	async addStreakFreezes(
+		userId: number,
+		type: 'earned' | 'granted',
+		amount: number,
+		options: { reference?: string; cap?: number; note?: string; createdBy?: number } = {}
+	): Promise<boolean> {
+		const result = await this.db
 			.prepare(
 				`
-				UPDATE users 
-				SET current_streak = ?,
-					highest_streak = CASE 
-						WHEN ? > highest_streak THEN ?
-						ELSE highest_streak 
-					END,
-					last_read_date = datetime('now', '-3 hours')
-				WHERE id = ?
+				INSERT OR IGNORE INTO streak_freeze_events (user_id, type, amount, reference, note, created_by)
+				SELECT id, ?, ?, ?, ?, ? FROM users WHERE id = ? AND (? IS NULL OR streak_freezes < ?)
 				`
 			)
-			.bind(streak, streak, streak, user.id)
+			.bind(type, amount, options.reference ?? null, options.note ?? null, options.createdBy ?? null, userId, options.cap ?? null, options.cap ?? null)
 			.run();
+
+		if (!result.meta.changes) {
+			return false;
+		}
+
+		await this.db.prepare('UPDATE users SET streak_freezes = streak_freezes + ? WHERE id = ?').bind(amount, userId).run();
+		return true;
+	}
+
+	async getStreakFreezes(userId?: number, email?: string): Promise<StreakFreezeSummary> {
+		const user = await this.db
+			.prepare(`SELECT id, streak_freezes FROM users WHERE ${userId ? 'id = ?' : 'email = ?'}`)
+			.bind(userId || email)
+			.first<{ id: number; streak_freezes: number }>();
+
+		if (!user) {
+			return { available: 0, history: [] };
+		}
+
+		const history = await this.db
+			.prepare('SELECT type, amount, edition_date, note, created_at FROM streak_freeze_events WHERE user_id = ? ORDER BY created_at DESC, id DESC')
+			.bind(user.id)
+			.all<StreakFreezeEvent>();
+
+		return { available: user.streak_freezes || 0, history: history?.results || [] };
 	}
 
 	async getUserStats(userId?: number, email?: string): Promise<UserStats> {
+		const user = await this.db
+			.prepare(`SELECT id FROM users WHERE ${userId ? 'id = ?' : 'email = ?'}`)
+			.bind(userId || email)
+			.first<{ id: number }>();
+
+		if (!user) {
+			return {
+				current_streak: 0,
+				highest_streak: 0,
+				total_reads: 0,
+				last_read_date: null,
+				sources: [],
+				opening_rate: 0,
+				history: [],
+				past_streaks: [],
+			};
+		}
+
+		// Refresh the stored streaks so a reader who stopped reading sees their streak end
+		const streaks = await this.recalculateStreak(user.id);
+		const today = await this.getToday(user.id);
+
 		const query = `
-			WITH RECURSIVE dates(date) AS (
-				SELECT date(datetime('now', '-3 hours'))
-				UNION ALL
-				SELECT date(date, '-1 day')
-				FROM dates
-				WHERE date >= date(datetime('now', '-3 hours'), '-90 days')
-			),
-			user_base AS (
-				SELECT * FROM users WHERE ${userId ? 'id = ?' : 'email = ?'}
-			),
-			daily_reads AS (
-				SELECT DISTINCT date(read_date) as read_date
-				FROM reading_stats r
-				JOIN user_base u ON r.user_id = u.id
-				ORDER BY read_date DESC
-			),
-			streak_calc AS (
-				SELECT 
-					d.date,
-					EXISTS (
-						SELECT 1 
-						FROM daily_reads 
-						WHERE read_date = d.date
-					) as has_read,
-					CASE WHEN strftime('%w', d.date) = '0' THEN 1 ELSE 0 END as is_sunday
-				FROM dates d
-				WHERE d.date <= date(datetime('now', '-3 hours'))
-				ORDER BY d.date DESC
-			),
-			streak_count AS (
-				WITH consecutive_reads AS (
-					SELECT 
-						date,
-						has_read,
-						is_sunday,
-						ROW_NUMBER() OVER (ORDER BY date DESC) as rn,
-						(
-							SELECT COUNT(*)
-							FROM streak_calc s2
-							WHERE s2.date > streak_calc.date
-							AND s2.date < date(datetime('now', '-3 hours'))
-							AND s2.has_read = 0
-							AND s2.is_sunday = 0
-						) as gaps_before_today
-					FROM streak_calc
-					WHERE has_read = 1 
-					OR (
-						is_sunday = 1 
-						AND EXISTS (
-							SELECT 1 
-							FROM streak_calc s2 
-							WHERE s2.date > streak_calc.date 
-							AND s2.has_read = 1
-							AND s2.date <= date(datetime('now', '-3 hours'))
-						)
-					)
-				)
-				SELECT COUNT(*) as current_streak
-				FROM consecutive_reads
-				WHERE gaps_before_today = 0
-			),
-			user_data AS (
+			WITH user_data AS (
 				SELECT 
 					u.id,
+					u.current_streak,
 					u.highest_streak,
 					u.last_read_date,
 					u.created_at,
@@ -281,30 +679,18 @@ export class DatabaseService {
 					GROUP_CONCAT(DISTINCT r.utm_source) as sources,
 					(
 						SELECT COUNT(*)
-						FROM (
-							WITH RECURSIVE dates(date) AS (
-								SELECT date(u.created_at)
-								UNION ALL
-								SELECT date(date, '+1 day')
-								FROM dates
-								WHERE date < date(datetime('now', '-3 hours'))
-							)
-							SELECT date
-							FROM dates
-							WHERE strftime('%w', date) != '0'  -- Exclude Sundays
-						)
-					) as total_possible_newsletters,
-					COALESCE((SELECT current_streak FROM streak_count), 0) as current_streak
-				FROM user_base u
+						FROM editions
+						WHERE edition_date >= date(u.created_at)
+						AND edition_date <= ?
+					) as total_possible_newsletters
+				FROM users u
 				LEFT JOIN reading_stats r ON u.id = r.user_id
+				WHERE u.id = ?
 				GROUP BY u.id
 			)
 			SELECT 
 				current_streak,
-				CASE
-					WHEN current_streak > highest_streak THEN current_streak
-					ELSE highest_streak
-				END as highest_streak,
+				highest_streak,
 				COALESCE(total_reads, 0) as total_reads,
 				last_read_date,
 				sources,
@@ -318,43 +704,69 @@ export class DatabaseService {
 				END as opening_rate
 			FROM user_data`;
 
-		const stats = await this.db
-			.prepare(query)
-			.bind(userId || email)
-			.first<UserStats>();
+		const stats = await this.db.prepare(query).bind(today, user.id).first<UserStats>();
 
-		return (
-			stats || {
-				current_streak: 0,
-				highest_streak: 0,
-				total_reads: 0,
-				last_read_date: null,
-				sources: [],
-				opening_rate: 0,
-				history: [],
-			}
-		);
+		return { ...stats!, past_streaks: streaks.past_streaks };
 	}
 
-	async getUserReadingHistory(userId?: number, email?: string): Promise<ReadingHistory[]> {
+	/**
+	 * One page of a reader's reads, newest first. Filters by day of the reader's local read date.
+	 */
+	async getUserReadingHistory(userId?: number, email?: string, filters: ReadingHistoryFilters = {}): Promise<ReadingHistoryPage> {
+		const limit = Math.min(Math.max(Math.floor(filters.limit || DEFAULT_HISTORY_LIMIT), 1), MAX_HISTORY_LIMIT);
+		const after = filters.cursor ? decodeHistoryCursor(filters.cursor) : null;
+
+		const conditions = [userId ? 'u.id = ?' : 'u.email = ?'];
+		const params: unknown[] = [userId || email];
+
+		if (filters.startDate) {
+			conditions.push('r.read_date >= date(?)');
+			params.push(filters.startDate);
+		}
+		if (filters.endDate) {
+			conditions.push("r.read_date < date(?, '+1 day')");
+			params.push(filters.endDate);
+		}
+		if (after) {
+			conditions.push('(r.read_date < ? OR (r.read_date = ? AND r.id < ?))');
+			params.push(after.date, after.date, after.id);
+		}
+
 		const query = `
 			SELECT 
+				r.id,
 				r.read_date as date,
-				r.post_id
+				r.post_id,
+				p.title as post_title,
+				p.publish_date
 			FROM reading_stats r
 			JOIN users u ON r.user_id = u.id
-			WHERE ${userId ? 'u.id = ?' : 'u.email = ?'}
-			ORDER BY r.read_date DESC
+			LEFT JOIN posts p ON p.post_id = r.post_id
+			WHERE ${conditions.join(' AND ')}
+			ORDER BY r.read_date DESC, r.id DESC
+			LIMIT ?
 		`;
 
 		const result = await this.db
 			.prepare(query)
-			.bind(userId || email)
-			.all();
-		return (result?.results as ReadingHistory[]) || [];
+			.bind(...params, limit + 1)
+			.all<ReadingHistory & { id: number }>();
+
+		const rows = (result?.results || []).slice(0, limit);
+		const hasMore = (result?.results?.length || 0) > limit;
+
+		return {
+			entries: rows.map(({ id: _id, ...read }) => read),
+			next_cursor: hasMore ? encodeHistoryCursor(rows[rows.length - 1]) : null,
+		};
 	}
 
 	async getPostStats(postId: string): Promise<PostStats> {
+		const post = await this.db
+			.prepare('SELECT title, publish_date FROM posts WHERE post_id = ?')
+			.bind(postId)
+			.first<{ title: string | null; publish_date: string | null }>();
+
 		const basicStats = await this.db
 			.prepare(
 				`
@@ -398,450 +810,160 @@ export class DatabaseService {
 				count: number;
 			}>
 		).forEach((row) => {
-			if (row.utm_source) breakdown.source[row.utm_source] = row.count;
-			if (row.utm_medium) breakdown.medium[row.utm_medium] = row.count;
-			if (row.utm_campaign) breakdown.campaign[row.utm_campaign] = row.count;
-			if (row.utm_channel) breakdown.channel[row.utm_channel] = row.count;
+			// Rows are UTM combinations, so the same value shows up in several of them
+			if (row.utm_source) breakdown.source[row.utm_source] = (breakdown.source[row.utm_source] || 0) + row.count;
+			if (row.utm_medium) breakdown.medium[row.utm_medium] = (breakdown.medium[row.utm_medium] || 0) + row.count;
+			if (row.utm_campaign) breakdown.campaign[row.utm_campaign] = (breakdown.campaign[row.utm_campaign] || 0) + row.count;
+			if (row.utm_channel) breakdown.channel[row.utm_channel] = (breakdown.channel[row.utm_channel] || 0) + row.count;
 		});
 
 		return {
+			title: post?.title ?? null,
+			publish_date: post?.publish_date ?? null,
 			total_reads: basicStats?.total_reads || 0,
 			unique_readers: basicStats?.unique_readers || 0,
 			utm_breakdown: breakdown,
 		};
 	}
 
-	private calculateDateRange(filters?: AdminStatsFilters): { startDate: string; endDate: string } {
-		// Create dates in Brazil's timezone (UTC-3)
-		const endDate = new Date();
-		endDate.setHours(endDate.getHours() - 3); // Adjust to Brazil timezone
-
-		const startDate = new Date(endDate);
-
-		// Se não houver filtros ou período especificado, usa 7 dias como padrão
-		const period = filters?.period || '7d';
-
-		switch (period) {
-			case '90d':
-				startDate.setDate(endDate.getDate() - 89); // 90 days including today
-				break;
-			case '30d':
-				startDate.setDate(endDate.getDate() - 29); // 30 days including today
-				break;
-			case '7d':
-			default:
-				startDate.setDate(endDate.getDate() - 6); // 7 days including today
-				break;
+	/**
+	 * The date range of the admin filters: endDate defaults to today, and startDate to the
+	 * start of `period` (7 days by default) ending on endDate.
+	 */
+	private resolveDateRange(filters: AdminStatsFilters): { startDate: string; endDate: string } {
+		const endDate = filters.endDate || toLocalDay(new Date(), this.getUserTimezone());
+		if (filters.startDate) {
+			return { startDate: filters.startDate, endDate };
 		}
 
-		return {
-			startDate: startDate.toISOString().split('T')[0],
-			endDate: endDate.toISOString().split('T')[0],
-		};
+		const days = { '7d': 7, '30d': 30, '90d': 90 }[filters.period || '7d'] || 7;
+		return { startDate: addDays(endDate, -(days - 1)), endDate };
 	}
 
-	async getAdminStats(filters: AdminStatsFilters): Promise<AdminStats> {
-		const { startDate, endDate } = filters;
-		const baseParams = [startDate, endDate];
-		const params: any[] = [...baseParams, ...baseParams, ...baseParams, ...baseParams];
-		let additionalWhere = '';
-
-		if (filters.newsletterDate) {
-			additionalWhere += ' AND date(r.read_date, "localtime") = ?';
-			params.push(filters.newsletterDate);
-		}
-
-		if (filters.minStreak) {
-			additionalWhere += ' AND u.current_streak >= ?';
-			params.push(filters.minStreak);
-		}
-
-		const query = `
-			WITH RECURSIVE dates(date) AS (
-				SELECT date(?, 'localtime')
-				UNION ALL
-				SELECT date(date, '+1 day')
-				FROM dates
-				WHERE date < date(?, 'localtime')
-			),
-			newsletter_days AS (
-				SELECT DISTINCT date(read_date, 'localtime') as date
-				FROM reading_stats r
-				WHERE date(r.read_date, "localtime") >= date(?)
-				AND date(r.read_date, "localtime") <= date(?)
-				AND strftime('%w', date(r.read_date, "localtime")) != '0'  -- Exclude Sundays
-				GROUP BY date(r.read_date, "localtime")
-				HAVING COUNT(DISTINCT user_id) > 0  -- Garante que houve pelo menos uma leitura neste dia
-			),
-			daily_reads AS (
-				SELECT DISTINCT 
-					u.id,
-					date(r.read_date, 'localtime') as read_date
-				FROM users u
-				JOIN reading_stats r ON r.user_id = u.id
-				WHERE date(r.read_date, "localtime") >= date(?)
-				AND date(r.read_date, "localtime") <= date(?)
-				ORDER BY read_date DESC
-			),
-			streak_calc AS (
-				SELECT 
-					u.id,
-					d.date,
-					EXISTS (
-						SELECT 1 
-						FROM daily_reads dr
-						WHERE dr.id = u.id AND dr.read_date = d.date
-					) as has_read,
-					CASE WHEN strftime('%w', d.date) = '0' THEN 1 ELSE 0 END as is_sunday
-				FROM users u
-				CROSS JOIN dates d
-				WHERE d.date <= date(datetime('now', '-3 hours'))
-				ORDER BY u.id, d.date DESC
-			),
-			streak_count AS (
-				WITH consecutive_reads AS (
-					SELECT 
-						id,
-						date,
-						has_read,
-						is_sunday,
-						ROW_NUMBER() OVER (PARTITION BY id ORDER BY date DESC) as rn,
-						(
-							SELECT COUNT(*)
-							FROM streak_calc s2
-							WHERE s2.id = streak_calc.id
-							AND s2.date > streak_calc.date
-							AND s2.date < date(datetime('now', '-3 hours'))
-							AND s2.has_read = 0
-							AND s2.is_sunday = 0
-						) as gaps_before_today
-					FROM streak_calc
-					WHERE has_read = 1 
-					OR (
-						is_sunday = 1 
-						AND EXISTS (
-							SELECT 1 
-							FROM streak_calc s2 
-							WHERE s2.id = streak_calc.id
-							AND s2.date > streak_calc.date 
-							AND s2.has_read = 1
-							AND s2.date <= date(datetime('now', '-3 hours'))
-						)
-					)
+	/**
+	 * Dashboard totals for a date range, read from the aggregates (user_daily_reads, daily_post_reads)
+	 * so the cost grows with the reader days in the range, not with every read ever tracked.
+	 */
+	async getAdminStats(filters: AdminStatsFilters = {}): Promise<AdminStats> {
+		const { startDate, endDate } = this.resolveDateRange(filters);
+
+		const [readers, totals] = await Promise.all([
+			this.db
+				.prepare(
+					`
+					SELECT COUNT(*) as active_users, COALESCE(ROUND(AVG(u.current_streak), 2), 0) as avg_streak
+					FROM (
+						SELECT DISTINCT user_id
+						FROM user_daily_reads
+						WHERE read_day >= date(?) AND read_day <= date(?)
+					) d
+					JOIN users u ON u.id = d.user_id
+					WHERE u.email != 'admin@example.com'
+					`
 				)
-				SELECT 
-					id,
-					COUNT(*) as current_streak
-				FROM consecutive_reads
-				WHERE gaps_before_today = 0
-				GROUP BY id
-			),
-			user_stats AS (
-				SELECT 
-					u.id,
-					COALESCE(sc.current_streak, 0) as current_streak,
-					u.created_at,
-					COUNT(DISTINCT CASE 
-						WHEN date(r.read_date, 'localtime') >= date(u.created_at, 'localtime')
-						AND nd.date IS NOT NULL  -- Apenas dias com newsletter
-						THEN date(r.read_date, 'localtime')
-						ELSE NULL 
-					END) as total_reads,
-					(
-						SELECT COUNT(*)
-						FROM newsletter_days nd2
-						WHERE nd2.date >= date(u.created_at, 'localtime')
-					) as total_possible_newsletters,
-					CASE 
-						WHEN COUNT(r.id) > 0 THEN 1
-						ELSE 0
-					END as is_active
-				FROM users u
-				JOIN reading_stats r ON u.id = r.user_id  -- Mudado de LEFT JOIN para JOIN para pegar apenas usuários com leituras
-					AND date(r.read_date, "localtime") >= date(?)
-					AND date(r.read_date, "localtime") <= date(?)
-				LEFT JOIN newsletter_days nd ON date(r.read_date, 'localtime') = nd.date
-				LEFT JOIN streak_count sc ON u.id = sc.id
-					${additionalWhere}
-				WHERE u.email != 'admin@example.com'
-				GROUP BY u.id
-			),
-			user_rates AS (
-				SELECT 
-					*,
-					CASE 
-						WHEN total_possible_newsletters > 0 THEN
-							ROUND((CAST(total_reads AS FLOAT) / total_possible_newsletters) * 100, 2)
-						ELSE 0
-					END as opening_rate
-				FROM user_stats
-			),
-			total_stats AS (
-				SELECT 
-					SUM(total_reads) as all_reads,
-					SUM(total_possible_newsletters) as all_possible
-				FROM user_stats
-			)
-			SELECT 
-				COUNT(*) as total_users,
-				ROUND(AVG(current_streak), 2) as avg_streak,
-				ROUND(AVG(opening_rate), 2) as avg_opening_rate,
-				SUM(is_active) as active_users
-			FROM user_rates`;
-
-		const result = await this.db
-			.prepare(query)
-			.bind(...params)
-			.first<{
-				total_users: number;
-				avg_streak: number;
-				avg_opening_rate: number;
-				active_users: number;
-			}>();
-
-		return (
-			result || {
-				total_users: 0,
-				avg_streak: 0,
-				avg_opening_rate: 0,
-				active_users_30d: 0,
-				top_readers: [],
-			}
-		);
-	}
-
-	async getTopReaders(filters: AdminStatsFilters): Promise<AdminStats['top_readers']> {
-		const { startDate, endDate } = filters;
-		const baseParams = [startDate, endDate];
-		const params: any[] = [...baseParams, ...baseParams, ...baseParams, ...baseParams];
-		let additionalWhere = '';
-
-		if (filters.newsletterDate) {
-			additionalWhere += ' AND date(r.read_date, "localtime") = ?';
-			params.push(filters.newsletterDate);
-		}
-
-		if (filters.minStreak) {
-			additionalWhere += ' AND u.current_streak >= ?';
-			params.push(filters.minStreak);
-		}
-
-		const query = `
-			WITH RECURSIVE dates(date) AS (
-				SELECT date(?, 'localtime')
-				UNION ALL
-				SELECT date(date, '+1 day')
-				FROM dates
-				WHERE date < date(?, 'localtime')
-			),
-			newsletter_days AS (
-				SELECT DISTINCT date(read_date, 'localtime') as date
-				FROM reading_stats r
-				WHERE date(r.read_date, "localtime") >= date(?)
-				AND date(r.read_date, "localtime") <= date(?)
-				AND strftime('%w', date(r.read_date, "localtime")) != '0'  -- Exclude Sundays
-				GROUP BY date(r.read_date, "localtime")
-				HAVING COUNT(DISTINCT user_id) > 0  -- Garante que houve pelo menos uma leitura neste dia
-			),
-			daily_reads AS (
-				SELECT DISTINCT 
-					u.id,
-					date(r.read_date, 'localtime') as read_date
-				FROM users u
-				JOIN reading_stats r ON r.user_id = u.id
-				WHERE date(r.read_date, "localtime") >= date(?)
-				AND date(r.read_date, "localtime") <= date(?)
-				ORDER BY read_date DESC
-			),
-			streak_calc AS (
-				SELECT 
-					u.id,
-					d.date,
-					EXISTS (
-						SELECT 1 
-						FROM daily_reads dr
-						WHERE dr.id = u.id AND dr.read_date = d.date
-					) as has_read,
-					CASE WHEN strftime('%w', d.date) = '0' THEN 1 ELSE 0 END as is_sunday
-				FROM users u
-				CROSS JOIN dates d
-				WHERE d.date <= date(datetime('now', '-3 hours'))
-				ORDER BY u.id, d.date DESC
-			),
-			streak_count AS (
-				WITH consecutive_reads AS (
-					SELECT 
-						id,
-						date,
-						has_read,
-						is_sunday,
-						ROW_NUMBER() OVER (PARTITION BY id ORDER BY date DESC) as rn,
-						(
-							SELECT COUNT(*)
-							FROM streak_calc s2
-							WHERE s2.id = streak_calc.id
-							AND s2.date > streak_calc.date
-							AND s2.date < date(datetime('now', '-3 hours'))
-							AND s2.has_read = 0
-							AND s2.is_sunday = 0
-						) as gaps_before_today
-					FROM streak_calc
-					WHERE has_read = 1 
-					OR (
-						is_sunday = 1 
-						AND EXISTS (
-							SELECT 1 
-							FROM streak_calc s2 
-							WHERE s2.id = streak_calc.id
-							AND s2.date > streak_calc.date 
-							AND s2.has_read = 1
-							AND s2.date <= date(datetime('now', '-3 hours'))
-						)
+				.bind(startDate, endDate)
+				.first<{ active_users: number; avg_streak: number }>(),
+			this.db
+				.prepare(
+					`
+					WITH signups AS MATERIALIZED (
+						SELECT date(created_at) as day, COUNT(*) as users
+						FROM users
+						WHERE email != 'admin@example.com'
+						AND ${countedSubscriberSql('users')}
+						AND date(created_at) <= date(?)
+						GROUP BY day
+					),
+					edition_rates AS (
+						SELECT
+							-- Reads of the edition's post on any day; editions without a post count the reads of their day
+							COALESCE(
+								(SELECT SUM(d.reads) FROM daily_post_reads d WHERE d.post_id = e.post_id),
+								(SELECT SUM(d.reads) FROM daily_post_reads d WHERE d.read_day = e.edition_date AND e.post_id IS NULL),
+								0
+							) as reads,
+							(SELECT SUM(s.users) FROM signups s WHERE s.day <= e.edition_date) as subscribers
+						FROM editions e
+						WHERE e.edition_date >= date(?)
+						AND e.edition_date <= date(?)  -- Apenas dias com edição
 					)
+					SELECT
+						(SELECT COALESCE(SUM(users), 0) FROM signups) as total_users,
+						(
+							SELECT COALESCE(SUM(reads), 0)
+							FROM daily_post_reads
+							WHERE read_day >= date(?) AND read_day <= date(?)
+						) as total_reads,
+						(
+							SELECT COALESCE(ROUND(AVG(
+								CASE WHEN subscribers > 0 THEN MIN(CAST(reads AS FLOAT) / subscribers * 100, 100) ELSE 0 END
+							), 2), 0)
+							FROM edition_rates
+						) as avg_opening_rate
+					`
 				)
-				SELECT 
-					id,
-					COUNT(*) as current_streak
-				FROM consecutive_reads
-				WHERE gaps_before_today = 0
-				GROUP BY id
-			),
-			user_reads AS (
-				SELECT 
-					u.id,
-					u.email,
-					u.created_at,
-					COALESCE(sc.current_streak, 0) as streak,
-					u.last_read_date,
-					COUNT(DISTINCT CASE 
-						WHEN date(r.read_date, 'localtime') >= date(u.created_at, 'localtime')
-						AND nd.date IS NOT NULL  -- Apenas dias com newsletter
-						THEN date(r.read_date, 'localtime')
-						ELSE NULL 
-					END) as total_reads,
-					(
-						SELECT COUNT(*)
-						FROM newsletter_days nd2
-						WHERE nd2.date >= date(u.created_at, 'localtime')
-					) as total_possible_newsletters
-				FROM users u
-				LEFT JOIN reading_stats r ON u.id = r.user_id 
-					AND date(r.read_date, "localtime") >= date(?)
-					AND date(r.read_date, "localtime") <= date(?)
-				LEFT JOIN newsletter_days nd ON date(r.read_date, 'localtime') = nd.date
-				LEFT JOIN streak_count sc ON u.id = sc.id
-					${additionalWhere}
-				WHERE u.email != 'admin@example.com'
-				GROUP BY u.id
-			)
-			SELECT 
-				email,
-				streak,
-				last_read_date as last_read,
-				CASE 
-					WHEN total_possible_newsletters > 0 THEN
-						ROUND((CAST(total_reads AS FLOAT) / total_possible_newsletters) * 100, 2)
-					ELSE 0
-				END as opening_rate
-			FROM user_reads
-			WHERE total_reads > 0
-			ORDER BY opening_rate DESC, streak DESC
-			LIMIT 10`;
-
-		const result = await this.db
-			.prepare(query)
-			.bind(...params)
-			.all();
-
-		return (result?.results as AdminStats['top_readers']) || [];
-	}
-
-	async getHistoricalStats(filters: AdminStatsFilters): Promise<HistoricalStats> {
-		const params: any[] = [filters.startDate, filters.endDate];
-		let additionalWhere = '';
-
-		if (filters.newsletterDate) {
-			additionalWhere += ' AND date(r.read_date, "localtime") = ?';
-			params.push(filters.newsletterDate);
-		}
-
-		if (filters.minStreak) {
-			additionalWhere += ' AND u.current_streak >= ?';
-			params.push(filters.minStreak);
-		}
-
-		const query = `
-			WITH RECURSIVE dates(date) AS (
-				SELECT date(?, 'localtime')
-				UNION ALL
-				SELECT date(date, '+1 day')
-				FROM dates
-				WHERE date < date(?, 'localtime')
-			),
-			daily_users AS (
-				SELECT 
-					d.date,
-					COUNT(DISTINCT u.id) as total_users,
-					ROUND(AVG(u.current_streak), 2) as avg_streak
-				FROM dates d
-				LEFT JOIN users u ON date(u.created_at, 'localtime') <= d.date
-				WHERE u.email != 'admin@example.com'
-					${additionalWhere}
-				GROUP BY d.date
-			),
-			daily_reads AS (
-				SELECT 
-					d.date,
-					COUNT(DISTINCT r.user_id) as unique_readers
-				FROM dates d
-				LEFT JOIN users u ON u.email != 'admin@example.com'
-				LEFT JOIN reading_stats r ON r.user_id = u.id 
-					AND date(r.read_date, 'localtime') = d.date
-					${additionalWhere}
-				WHERE strftime('%w', d.date) != '0'  -- Exclui domingos
-				GROUP BY d.date
-			)
-			SELECT 
-				d.date,
-				COALESCE(du.avg_streak, 0) as avg_streak,
-				CASE 
-					WHEN du.total_users > 0 THEN
-						ROUND((CAST(COALESCE(dr.unique_readers, 0) AS FLOAT) / du.total_users) * 100, 2)
-					ELSE 0
-				END as opening_rate
-			FROM dates d
-			LEFT JOIN daily_users du ON d.date = du.date
-			LEFT JOIN daily_reads dr ON d.date = dr.date
-			WHERE strftime('%w', d.date) != '0'  -- Exclui domingos
-			ORDER BY d.date ASC`;
-
-		const result = await this.db
-			.prepare(query)
-			.bind(...params)
-			.all();
+				.bind(endDate, startDate, endDate, startDate, endDate)
+				.first<{ total_users: number; total_reads: number; avg_opening_rate: number }>(),
+		]);
 
 		return {
-			daily_stats: (result?.results || []).map((row) => ({
-				date: row.date,
-				avg_streak: row.avg_streak,
-				opening_rate: row.opening_rate,
-			})),
+			start_date: startDate,
+			end_date: endDate,
+			total_users: totals?.total_users || 0,
+			active_users: readers?.active_users || 0,
+			total_reads: totals?.total_reads || 0,
+			avg_streak: readers?.avg_streak || 0,
+			avg_opening_rate: totals?.avg_opening_rate || 0,
 		};
 	}
-}
 
-export function errorHandler(error: Error): Response {
-	console.error('Error:', error);
+	/**
+	 * The 10 readers of the range with the best opening rate (then streak): their reads in the range
+	 * divided by the editions of the range they were subscribed for, up to today.
+	 */
+	async getTopReaders(filters: AdminStatsFilters = {}): Promise<TopReader[]> {
+		const { startDate, endDate } = this.resolveDateRange(filters);
+		const today = await this.getToday();
 
-	if (error instanceof ValidationError) {
-		return new Response(JSON.stringify({ error: error.message }), {
-			status: 400,
-			headers: { 'Content-Type': 'application/json' },
-		});
-	}
+		const result = await this.db
+			.prepare(
+				`
+				WITH active AS (
+					SELECT d.reads, u.email, u.current_streak, u.last_read_date, MAX(date(u.created_at), date(?)) as from_day
+					FROM (
+						SELECT user_id, SUM(reads) as reads
+						FROM user_daily_reads
+						WHERE read_day >= date(?) AND read_day <= date(?)
+						GROUP BY user_id
+					) d
+					JOIN users u ON u.id = d.user_id
+					WHERE u.email != 'admin@example.com'
+				),
+				-- Editions available per first day, computed once per day instead of once per reader
+				available AS MATERIALIZED (
+					SELECT
+						s.from_day,
+						(SELECT COUNT(*) FROM editions e WHERE e.edition_date >= s.from_day AND e.edition_date <= ?) as editions
+					FROM (SELECT DISTINCT from_day FROM active) s
+				)
+				SELECT
+					a.email,
+					a.current_streak as streak,
+					a.reads as total_reads,
+					CASE
+						WHEN v.editions > 0 THEN MIN(ROUND((CAST(a.reads AS FLOAT) / v.editions) * 100, 2), 100)
+						ELSE 0
+					END as opening_rate,
+					a.last_read_date as last_read
+				FROM active a
+				JOIN available v ON v.from_day = a.from_day
+				ORDER BY opening_rate DESC, streak DESC
+				LIMIT 10
+				`
+			)
+			.bind(startDate, startDate, endDate, endDate < today ? endDate : today)
+			.all<TopReader>();
 
-	return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
-		status: 500,
-		headers: { 'Content-Type': 'application/json' },
-	});
+		return result?.results || [];
+	}
 }
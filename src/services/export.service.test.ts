@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { exportResponse, parseExportFormat, postStatsToRows, toCsv, toNdjson } from './export.service';
+
+describe('parseExportFormat', () => {
+	it('should treat a missing format and json as the default response', () => {
+		expect(parseExportFormat(null)).toBeNull();
+		expect(parseExportFormat('json')).toBeNull();
+	});
+
+	it('should accept csv and ndjson', () => {
+		expect(parseExportFormat('csv')).toBe('csv');
+		expect(parseExportFormat('ndjson')).toBe('ndjson');
+	});
+
+	it('should reject unknown formats', () => {
+		expect(() => parseExportFormat('xlsx')).toThrow('Invalid format');
+	});
+});
+
+describe('toCsv', () => {
+	it('should write a header and one line per row', () => {
+		const csv = toCsv([
+			{ email: 'a@example.com', streak: 3 },
+			{ email: 'b@example.com', streak: 1, opening_rate: 50 },
+		]);
+
+		expect(csv).toBe('email,streak,opening_rate\r\na@example.com,3,\r\nb@example.com,1,50\r\n');
+	});
+
+	it('should quote values with commas, quotes and line breaks', () => {
+		expect(toCsv([{ note: 'a, "b"\nc' }])).toBe('note\r\n"a, ""b""\nc"\r\n');
+	});
+
+	it('should neutralise values that spreadsheets would run as formulas', () => {
+		expect(toCsv([{ utm_source: '=HYPERLINK("x")' }])).toBe('utm_source\r\n"\'=HYPERLINK(""x"")"\r\n');
+	});
+});
+
+describe('toNdjson', () => {
+	it('should write one JSON object per line', () => {
+		expect(toNdjson([{ a: 1 }, { a: null }])).toBe('{"a":1}\n{"a":null}\n');
+	});
+});
+
+describe('postStatsToRows', () => {
+	it('should flatten totals and the UTM breakdown', () => {
+		const rows = postStatsToRows('post_1', {
+			title: 'Edição #1',
+			publish_date: '2024-03-20T09:00:00.000Z',
+			total_reads: 10,
+			unique_readers: 8,
+			utm_breakdown: { source: { newsletter: 6 }, medium: {}, campaign: {}, channel: { email: 4 } },
+		});
+
+		expect(rows).toEqual([
+			{ post_id: 'post_1', dimension: 'total_reads', value: '', count: 10 },
+			{ post_id: 'post_1', dimension: 'unique_readers', value: '', count: 8 },
+			{ post_id: 'post_1', dimension: 'utm_source', value: 'newsletter', count: 6 },
+			{ post_id: 'post_1', dimension: 'utm_channel', value: 'email', count: 4 },
+		]);
+	});
+});
+
+describe('exportResponse', () => {
+	it('should send the file as an attachment', async () => {
+		const response = exportResponse([{ a: 1 }], 'csv', 'post-stats-"x"', {});
+
+		expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+		expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="post-stats-_x_.csv"');
+		expect(await response.text()).toBe('a\r\n1\r\n');
+	});
+});
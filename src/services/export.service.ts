@@ -0,0 +1,182 @@
+import { DatabaseService } from './db.service';
+import { AttributionReport, CohortReport, HistoricalStats, PostStats, ValidationError } from '../types';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+// Report rows are plain objects such as AdminStats, so they are read by key
+type Row = object;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Rows fetched per D1 query when streaming; keeps each result set well below D1's limits
+const READS_PAGE_SIZE = 1000;
+
+const READ_EXPORT_COLUMNS = ['id', 'email', 'post_id', 'read_date', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_channel'];
+
+/**
+ * Reads the `format` query parameter. Returns null for the default JSON response.
+ */
+export function parseExportFormat(value: string | null): ExportFormat | null {
+	if (!value || value === 'json') {
+		return null;
+	}
+	if (value !== 'csv' && value !== 'ndjson') {
+		throw new ValidationError(`Invalid format: "${value}". Use one of: json, csv, ndjson`);
+	}
+	return value;
+}
+
+function csvValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+
+	let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+	// Keep spreadsheets from running cell contents as formulas
+	if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(columns: string[], row: Row): string {
+	return columns.map((column) => csvValue((row as Record<string, unknown>)[column])).join(',') + '\r\n';
+}
+
+/**
+ * CSV with a header row. Columns are every key of the rows, in order of first appearance.
+ */
+export function toCsv(rows: Row[], columns?: string[]): string {
+	const header = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+	return header.map(csvValue).join(',') + '\r\n' + rows.map((row) => csvLine(header, row)).join('');
+}
+
+export function toNdjson(rows: Row[]): string {
+	return rows.map((row) => JSON.stringify(row) + '\n').join('');
+}
+
+export function exportResponse(rows: Row[], format: ExportFormat, filename: string, headers: Record<string, string> = {}): Response {
+	return new Response(format === 'csv' ? toCsv(rows) : toNdjson(rows), {
+		headers: {
+			...headers,
+			'Content-Type': CONTENT_TYPES[format],
+			'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]/g, '_')}.${format}"`,
+		},
+	});
+}
+
+/**
+ * One row per count: the totals first, then each UTM value.
+ */
+export function postStatsToRows(postId: string, stats: PostStats): Row[] {
+	return [
+		{ post_id: postId, dimension: 'total_reads', value: '', count: stats.total_reads },
+		{ post_id: postId, dimension: 'unique_readers', value: '', count: stats.unique_readers },
+		...Object.entries(stats.utm_breakdown).flatMap(([dimension, counts]) =>
+			Object.entries(counts).map(([value, count]) => ({ post_id: postId, dimension: `utm_${dimension}`, value, count }))
+		),
+	];
+}
+
+/**
+ * One row per day with a `streaks_<bucket>` column per streak distribution bucket.
+ */
+export function historicalToRows(historical: HistoricalStats): Row[] {
+	return historical.daily_stats.map(({ streak_distribution, ...day }) => ({
+		...day,
+		...Object.fromEntries(Object.entries(streak_distribution).map(([bucket, users]) => [`streaks_${bucket}`, users])),
+	}));
+}
+
+/**
+ * One row per cohort with a `week_<n>` retention column per heatmap column.
+ */
+export function cohortsToRows(report: CohortReport): Row[] {
+	return report.cohorts.map(({ cohort, users, retention }) => ({
+		cohort,
+		users,
+		...Object.fromEntries(retention.map(({ week, rate }) => [`week_${week}`, rate])),
+	}));
+}
+
+/**
+ * One row per dimension value, followed by its pivot rows (with `pivot_value` set).
+ */
+export function attributionToRows(report: AttributionReport): Row[] {
+	return Object.entries(report.dimensions).flatMap(([dimension, rows]) =>
+		rows.flatMap(({ value, breakdown, ...metrics }) => [
+			{ dimension, value, pivot: '', pivot_value: '', ...metrics },
+			...(breakdown || []).map(({ value: pivotValue, ...pivotMetrics }) => ({
+				dimension,
+				value,
+				pivot: report.pivot,
+				pivot_value: pivotValue,
+				...pivotMetrics,
+			})),
+		])
+	);
+}
+
+export class ExportService {
+	constructor(private db: DatabaseService) {}
+
+	/**
+	 * Streams every read between the two dates (inclusive) with the reader's email.
+	 * Pages through reading_stats by id, so the export can be larger than one D1 result set.
+	 */
+	streamReads(startDate: string, endDate: string, format: ExportFormat, headers: Record<string, string> = {}): Response {
+		const encoder = new TextEncoder();
+		let lastId = 0;
+		let headerSent = false;
+
+		const stream = new ReadableStream<Uint8Array>({
+			pull: async (controller) => {
+				if (format === 'csv' && !headerSent) {
+					headerSent = true;
+					controller.enqueue(encoder.encode(READ_EXPORT_COLUMNS.join(',') + '\r\n'));
+					return;
+				}
+
+				const page = await this.db
+					.prepare(
+						`
+						SELECT r.id, u.email, r.post_id, r.read_date, r.utm_source, r.utm_medium, r.utm_campaign, r.utm_channel
+						FROM reading_stats r
+						JOIN users u ON u.id = r.user_id
+						WHERE r.id > ?
+						AND date(r.read_date) >= date(?)
+						AND date(r.read_date) <= date(?)
+						ORDER BY r.id
+						LIMIT ?
+						`
+					)
+					.bind(lastId, startDate, endDate, READS_PAGE_SIZE)
+					.all<{ id: number }>();
+
+				const rows = page?.results || [];
+				if (rows.length) {
+					lastId = rows[rows.length - 1].id;
+					const body = format === 'csv' ? rows.map((row) => csvLine(READ_EXPORT_COLUMNS, row)).join('') : toNdjson(rows);
+					controller.enqueue(encoder.encode(body));
+				}
+
+				if (rows.length < READS_PAGE_SIZE) {
+					controller.close();
+				}
+			},
+		});
+
+		return new Response(stream, {
+			headers: {
+				...headers,
+				'Content-Type': CONTENT_TYPES[format],
+				'Content-Disposition': `attachment; filename="reads-${startDate}-${endDate}.${format}"`,
+			},
+		});
+	}
+}
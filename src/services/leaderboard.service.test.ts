@@ -0,0 +1,124 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatabaseService } from './db.service';
+import { getDisplayName, getWindowStart, LeaderboardService } from './leaderboard.service';
+import { migrate } from '../test-helpers';
+
+describe('getWindowStart', () => {
+	it('should start the week on Monday', () => {
+		expect(getWindowStart('week', '2024-03-13')).toBe('2024-03-11');
+		expect(getWindowStart('week', '2024-03-11')).toBe('2024-03-11');
+		expect(getWindowStart('week', '2024-03-17')).toBe('2024-03-11');
+	});
+
+	it('should cross month boundaries for weeks', () => {
+		expect(getWindowStart('week', '2024-03-01')).toBe('2024-02-26');
+	});
+
+	it('should start the month on the first', () => {
+		expect(getWindowStart('month', '2024-03-13')).toBe('2024-03-01');
+	});
+
+	it('should have no start for the all-time window', () => {
+		expect(getWindowStart('all', '2024-03-13')).toBeNull();
+	});
+});
+
+describe('getDisplayName', () => {
+	it('should prefer the chosen display name', () => {
+		expect(getDisplayName({ id: 1, display_name: 'Ana' })).toBe('Ana');
+	});
+
+	it('should give a stable pseudonym per user', () => {
+		const name = getDisplayName({ id: 42, display_name: null });
+
+		expect(name).toMatch(/^Reader [0-9A-Z]{6}$/);
+		expect(getDisplayName({ id: 42, display_name: null })).toBe(name);
+		expect(getDisplayName({ id: 43, display_name: null })).not.toBe(name);
+	});
+});
+
+describe('LeaderboardService on D1', () => {
+	const leaderboards = new LeaderboardService(new DatabaseService(env.DB, 'America/Sao_Paulo'));
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, display_name, leaderboard_opt_out) VALUES
+					(1, 'ana@example.com', 'Ana', 0),
+					(2, 'hidden@example.com', 'Hidden', 1),
+					(3, 'bia@example.com', 'Bia', 0),
+					(4, 'caio@example.com', 'Caio', 0)
+				`
+			),
+			env.DB.prepare(
+				`
+				INSERT INTO xp_ledger (user_id, amount, reason, source) VALUES
+					(1, 40, 'read', 'read'), (2, 30, 'read', 'read'), (3, 20, 'read', 'read'), (4, 10, 'read', 'read')
+				`
+			),
+		]);
+	});
+
+	async function addXp(userId: number, amount: number) {
+		await env.DB
+			.prepare("INSERT INTO xp_ledger (user_id, amount, reason, source) VALUES (?, ?, 'read', 'read')")
+			.bind(userId, amount)
+			.run();
+	}
+
+	it("should leave out readers who opted out and report the caller's own rank", async () => {
+		const board = await leaderboards.getLeaderboard('all', 'xp', { limit: 1, userId: 4 });
+
+		expect(board.entries).toEqual([{ rank: 1, display_name: 'Ana', value: 40 }]);
+		expect(board.me).toEqual({ rank: 3, display_name: 'Caio', value: 10 });
+		expect((await leaderboards.getLeaderboard('all', 'xp', { userId: 2 })).me).toBeNull();
+	});
+
+	it('should page through the board without overlaps', async () => {
+		const names: string[] = [];
+		let cursor: string | null = null;
+
+		do {
+			const page = await leaderboards.getLeaderboard('all', 'xp', { limit: 2, cursor });
+			names.push(...page.entries.map((entry) => entry.display_name));
+			cursor = page.next_cursor;
+		} while (cursor);
+
+		expect(names).toEqual(['Ana', 'Bia', 'Caio']);
+		await expect(leaderboards.getLeaderboard('all', 'xp', { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid leaderboard cursor');
+	});
+
+	it('should rebuild a board once its snapshot expires or its period ends', async () => {
+		await leaderboards.getLeaderboard('all', 'xp');
+		await leaderboards.getLeaderboard('week', 'xp');
+		await addXp(4, 100);
+
+		// Still cached
+		expect((await leaderboards.getLeaderboard('all', 'xp')).entries[0].display_name).toBe('Ana');
+		expect((await leaderboards.getLeaderboard('week', 'xp')).entries[0].display_name).toBe('Ana');
+
+		await env.DB.batch([
+			env.DB.prepare("UPDATE leaderboard_snapshots SET generated_at = '2024-01-01T00:00:00.000Z' WHERE time_window = 'all'"),
+			env.DB.prepare("UPDATE leaderboard_snapshots SET period_start = '2024-01-01' WHERE time_window = 'week'"),
+		]);
+
+		expect((await leaderboards.getLeaderboard('all', 'xp')).entries[0]).toEqual({ rank: 1, display_name: 'Caio', value: 110 });
+		expect((await leaderboards.getLeaderboard('week', 'xp')).entries[0]).toEqual({ rank: 1, display_name: 'Caio', value: 110 });
+	});
+
+	it('should take a reader off the cached boards when they opt out, without rebuilding them', async () => {
+		const before = await leaderboards.getLeaderboard('all', 'xp');
+
+		await leaderboards.updateSettings(1, { opt_out: true });
+		const after = await leaderboards.getLeaderboard('all', 'xp');
+		expect(after.generated_at).toBe(before.generated_at);
+		expect(after.entries.map((entry) => entry.display_name)).toEqual(['Bia', 'Caio']);
+
+		// Opting back in shows the reader again from the next rebuild
+		await leaderboards.updateSettings(1, { opt_out: false });
+		expect((await leaderboards.getLeaderboard('all', 'xp')).entries).toHaveLength(2);
+	});
+});
@@ -0,0 +1,274 @@
+import { DatabaseService, readDaySql } from './db.service';
+import { startOfPeriod } from './timezone.service';
+import {
+	Leaderboard,
+	LeaderboardEntry,
+	LeaderboardMetric,
+	LeaderboardSettingsRequest,
+	LeaderboardWindow,
+	NotFoundError,
+	ValidationError,
+} from '../types';
+
+const WINDOWS: LeaderboardWindow[] = ['week', 'month', 'all'];
+const METRICS: LeaderboardMetric[] = ['streak', 'reads', 'xp'];
+
+// Snapshots older than this are rebuilt on the next request
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const DISPLAY_NAME_MIN_LENGTH = 3;
+const DISPLAY_NAME_MAX_LENGTH = 30;
+
+interface LeaderboardRow {
+	position: number;
+	rank: number;
+	value: number;
+	id: number;
+	display_name: string | null;
+}
+
+/**
+ * First day (YYYY-MM-DD) counted by a leaderboard window: Monday of the current week,
+ * the first of the current month, or null for the all-time board.
+ */
+export function getWindowStart(window: LeaderboardWindow, today: string): string | null {
+	return window === 'all' ? null : startOfPeriod(window, today);
+}
+
+/**
+ * Public name shown on leaderboards. Readers without a display name get a stable
+ * pseudonym derived from their id, so emails are never exposed.
+ */
+export function getDisplayName(user: { id: number; display_name: string | null }): string {
+	if (user.display_name) {
+		return user.display_name;
+	}
+
+	const code = (Math.imul(user.id, 2654435761) >>> 0).toString(36).toUpperCase().padStart(6, '0').slice(-6);
+	return `Reader ${code}`;
+}
+
+export class LeaderboardService {
+	constructor(private db: DatabaseService) {}
+
+	async getLeaderboard(
+		window: string,
+		metric: string,
+		options: { limit?: number; cursor?: string | null; userId?: number } = {}
+	): Promise<Leaderboard> {
+		if (!WINDOWS.includes(window as LeaderboardWindow)) {
+			throw new ValidationError(`Invalid window: "${window}". Use one of: ${WINDOWS.join(', ')}`);
+		}
+		if (!METRICS.includes(metric as LeaderboardMetric)) {
+			throw new ValidationError(`Invalid metric: "${metric}". Use one of: ${METRICS.join(', ')}`);
+		}
+
+		const limit = Math.min(Math.max(Math.floor(options.limit || DEFAULT_LIMIT), 1), MAX_LIMIT);
+		const after = options.cursor ? this.decodeCursor(options.cursor) : 0;
+
+		const snapshot = await this.getSnapshot(window as LeaderboardWindow, metric as LeaderboardMetric);
+
+		const rows = await this.db
+			.prepare(
+				`
+				SELECT e.position, e.rank, e.value, u.id, u.display_name
+				FROM leaderboard_entries e
+				JOIN users u ON u.id = e.user_id
+				WHERE e.time_window = ? AND e.metric = ? AND e.position > ?
+				ORDER BY e.position
+				LIMIT ?
+				`
+			)
+			.bind(window, metric, after, limit + 1)
+			.all<LeaderboardRow>();
+
+		const page = (rows?.results || []).slice(0, limit);
+		const hasMore = (rows?.results?.length || 0) > limit;
+
+		let me: LeaderboardEntry | null = null;
+		if (options.userId) {
+			const own = await this.db
+				.prepare(
+					`
+					SELECT e.position, e.rank, e.value, u.id, u.display_name
+					FROM leaderboard_entries e
+					JOIN users u ON u.id = e.user_id
+					WHERE e.time_window = ? AND e.metric = ? AND e.user_id = ?
+					`
+				)
+				.bind(window, metric, options.userId)
+				.first<LeaderboardRow>();
+			me = own ? this.toEntry(own) : null;
+		}
+
+		return {
+			window: window as LeaderboardWindow,
+			metric: metric as LeaderboardMetric,
+			period_start: snapshot.period_start,
+			generated_at: snapshot.generated_at,
+			entries: page.map((row) => this.toEntry(row)),
+			next_cursor: hasMore ? this.encodeCursor(page[page.length - 1].position) : null,
+			me,
+		};
+	}
+
+	async updateSettings(userId: number, settings: LeaderboardSettingsRequest): Promise<{ display_name: string; opt_out: boolean }> {
+		const user = await this.db
+			.prepare('SELECT id, display_name, leaderboard_opt_out FROM users WHERE id = ?')
+			.bind(userId)
+			.first<{ id: number; display_name: string | null; leaderboard_opt_out: number }>();
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		let displayName = user.display_name;
+		if (settings.display_name !== undefined) {
+			displayName = settings.display_name?.trim() || null;
+			if (displayName && (displayName.length < DISPLAY_NAME_MIN_LENGTH || displayName.length > DISPLAY_NAME_MAX_LENGTH)) {
+				throw new ValidationError(
+					`Display name must be between ${DISPLAY_NAME_MIN_LENGTH} and ${DISPLAY_NAME_MAX_LENGTH} characters long`
+				);
+			}
+			if (displayName?.includes('@')) {
+				throw new ValidationError('Display name cannot contain an email address');
+			}
+		}
+
+		const optOut = settings.opt_out === undefined ? Boolean(user.leaderboard_opt_out) : Boolean(settings.opt_out);
+
+		const statements = [
+			this.db
+				.prepare('UPDATE users SET display_name = ?, leaderboard_opt_out = ?, updated_at = ? WHERE id = ?')
+				.bind(displayName, optOut ? 1 : 0, new Date().toISOString(), userId),
+		];
+
+		// Opting out takes the reader off the cached boards right away; the other ranks and an opt-in
+		// catch up when each board is next rebuilt, so toggling never forces every board to rebuild
+		if (optOut && !user.leaderboard_opt_out) {
+			statements.push(this.db.prepare('DELETE FROM leaderboard_entries WHERE user_id = ?').bind(userId));
+		}
+
+		await this.db.batch(statements);
+
+		return { display_name: getDisplayName({ id: userId, display_name: displayName }), opt_out: optOut };
+	}
+
+	/**
+	 * Returns the cached snapshot for a board, rebuilding it when it is missing,
+	 * older than the TTL or from a previous week/month.
+	 */
+	private async getSnapshot(
+		window: LeaderboardWindow,
+		metric: LeaderboardMetric
+	): Promise<{ period_start: string | null; generated_at: string }> {
+		const periodStart = getWindowStart(window, await this.db.getToday());
+
+		const snapshot = await this.db
+			.prepare('SELECT period_start, generated_at FROM leaderboard_snapshots WHERE time_window = ? AND metric = ?')
+			.bind(window, metric)
+			.first<{ period_start: string | null; generated_at: string }>();
+
+		if (snapshot && snapshot.period_start === periodStart && Date.now() - Date.parse(snapshot.generated_at) < CACHE_TTL_MS) {
+			return snapshot;
+		}
+
+		const generatedAt = new Date().toISOString();
+		const { query, params } = this.getScoreQuery(metric, periodStart);
+
+		await this.db.batch([
+			this.db.prepare('DELETE FROM leaderboard_entries WHERE time_window = ? AND metric = ?').bind(window, metric),
+			this.db
+				.prepare(
+					`
+					INSERT INTO leaderboard_entries (time_window, metric, position, rank, user_id, value)
+					SELECT ?, ?,
+						ROW_NUMBER() OVER (ORDER BY s.value DESC, s.user_id),
+						RANK() OVER (ORDER BY s.value DESC),
+						s.user_id, s.value
+					FROM (${query}) s
+					JOIN users u ON u.id = s.user_id
+					WHERE s.value > 0
+					AND u.is_active = 1
+					AND u.deactivated_at IS NULL
+					AND COALESCE(u.leaderboard_opt_out, 0) = 0
+					AND u.email != 'admin@example.com'
+					`
+				)
+				.bind(window, metric, ...params),
+			this.db
+				.prepare('INSERT OR REPLACE INTO leaderboard_snapshots (time_window, metric, period_start, generated_at) VALUES (?, ?, ?, ?)')
+				.bind(window, metric, periodStart, generatedAt),
+		]);
+
+		return { period_start: periodStart, generated_at: generatedAt };
+	}
+
+	private getScoreQuery(metric: LeaderboardMetric, periodStart: string | null): { query: string; params: string[] } {
+		const params = periodStart ? [periodStart] : [];
+
+		switch (metric) {
+			case 'reads': {
+				// Editions of the window that were read
+				const where = periodStart ? 'WHERE e.edition_date >= date(?)' : '';
+				return {
+					query: `
+						SELECT r.user_id, COUNT(DISTINCT e.edition_date) as value
+						FROM reading_stats r
+						JOIN editions e ON e.edition_date = ${readDaySql()}
+						${where}
+						GROUP BY r.user_id`,
+					params,
+				};
+			}
+			case 'xp': {
+				// XP earned in the window, including adjustments and reversals
+				const where = periodStart ? 'WHERE date(l.created_at) >= date(?)' : '';
+				return {
+					query: `
+						SELECT l.user_id, SUM(l.amount) as value
+						FROM xp_ledger l
+						${where}
+						GROUP BY l.user_id`,
+					params,
+				};
+			}
+			case 'streak': {
+				// Current streak of readers who read during the window
+				const where = periodStart
+					? 'WHERE EXISTS (SELECT 1 FROM reading_stats r WHERE r.user_id = u.id AND date(r.read_date) >= date(?))'
+					: '';
+				return {
+					query: `
+						SELECT u.id as user_id, u.current_streak as value
+						FROM users u
+						${where}`,
+					params,
+				};
+			}
+		}
+	}
+
+	private toEntry(row: LeaderboardRow): LeaderboardEntry {
+		return { rank: row.rank, display_name: getDisplayName(row), value: row.value };
+	}
+
+	private encodeCursor(position: number): string {
+		return btoa(`position:${position}`);
+	}
+
+	private decodeCursor(cursor: string): number {
+		try {
+			const [prefix, value] = atob(cursor).split(':');
+			const position = Number(value);
+			if (prefix === 'position' && Number.isInteger(position) && position >= 0) {
+				return position;
+			}
+		} catch {
+			// Fall through to the validation error below
+		}
+		throw new ValidationError('Invalid leaderboard cursor');
+	}
+}
@@ -0,0 +1,138 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { MigrationService, SCHEMA_VERSION, getMigrationVersion, splitStatements } from './migration.service';
+import { migrations } from '../test-helpers';
+
+const [initialSchema] = migrations;
+const names = migrations.map(({ name }) => name);
+
+// Just enough of D1 to run the migration bookkeeping: it records every batch
+function createDb(applied: string[]) {
+	const batches: string[][] = [];
+
+	const statement = (sql: string, params: unknown[] = []) => ({
+		sql,
+		params,
+		bind: (...values: unknown[]) => statement(sql, values),
+		run: async () => ({ success: true }),
+		first: async () => (sql.includes('sqlite_master') && applied.length ? { name: 'schema_migrations' } : null),
+		all: async () => ({ results: applied.map((name) => ({ name })) }),
+	});
+
+	const db = {
+		prepare: (sql: string) => statement(sql),
+		batch: async (statements: { sql: string; params: unknown[] }[]) => {
+			batches.push(statements.map(({ sql, params }) => (params.length ? `${sql} [${params.join(', ')}]` : sql)));
+			return [];
+		},
+	};
+
+	return { db: db as unknown as D1Database, batches };
+}
+
+describe('getMigrationVersion', () => {
+	it('should read the version from the file name', () => {
+		expect(getMigrationVersion('0001_initial_schema.sql')).toBe(1);
+		expect(getMigrationVersion('0012_daily-snapshots.sql')).toBe(12);
+		expect(() => getMigrationVersion('initial.sql')).toThrow('Invalid migration file name');
+	});
+});
+
+describe('splitStatements', () => {
+	it('should split on semicolons outside strings and drop comments', () => {
+		const sql = `
+			-- users; with a comment
+			CREATE TABLE a (id INTEGER); -- trailing
+			INSERT INTO a (note) VALUES ('it''s; fine');
+		`;
+
+		expect(splitStatements(sql)).toEqual(['CREATE TABLE a (id INTEGER)', "INSERT INTO a (note) VALUES ('it''s; fine')"]);
+	});
+
+	it('should only produce idempotent statements for the initial schema', () => {
+		const statements = splitStatements(initialSchema.sql);
+
+		expect(statements).toHaveLength(6);
+		for (const statement of statements) {
+			expect(statement).toMatch(/^(CREATE (UNIQUE )?(TABLE|INDEX) IF NOT EXISTS|INSERT OR IGNORE)/);
+		}
+	});
+});
+
+describe('MigrationService', () => {
+	it('should apply pending migrations in version order with their bookkeeping row', async () => {
+		const { db, batches } = createDb([]);
+
+		expect(await new MigrationService(db).migrate([...migrations].reverse())).toEqual(names);
+		expect(batches).toHaveLength(migrations.length);
+		expect(batches[0][batches[0].length - 1]).toBe('INSERT INTO schema_migrations (name) VALUES (?) [0001_initial_schema.sql]');
+		expect(batches[1][batches[1].length - 1]).toBe('INSERT INTO schema_migrations (name) VALUES (?) [0002_refresh_tokens.sql]');
+	});
+
+	it('should skip migrations that were already applied', async () => {
+		const { db, batches } = createDb(['0001_initial_schema.sql']);
+
+		expect(await new MigrationService(db).migrate(migrations)).toEqual(names.slice(1));
+		expect(batches).toHaveLength(migrations.length - 1);
+	});
+
+	it('should refuse to serve a database behind the schema version', async () => {
+		const latest = Math.max(...migrations.map(({ name }) => getMigrationVersion(name)));
+
+		await expect(new MigrationService(createDb([]).db).assertUpToDate()).rejects.toThrow('The service is being updated');
+		await expect(new MigrationService(createDb(['0001_initial_schema.sql']).db).assertUpToDate()).rejects.toThrow();
+		await expect(new MigrationService(createDb(names).db).assertUpToDate()).resolves.toBeUndefined();
+		expect(SCHEMA_VERSION).toBe(latest);
+	});
+});
+
+describe('MigrationService on D1', () => {
+	it('should upgrade a database created from the original schema.sql', async () => {
+		// What `wrangler d1 execute --file=schema.sql` left behind: the tables and a reader, but no schema_migrations
+		await env.DB.batch(splitStatements(initialSchema.sql).map((statement) => env.DB.prepare(statement)));
+		await env.DB.batch([
+			env.DB.prepare("INSERT INTO users (email, current_streak) VALUES ('reader@example.com', 3)"),
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(1, 'post_1', '2024-03-18 08:00:00'),
+					(1, 'post_2', '2024-03-19 09:00:00'),
+					(1, 'post_1', '2024-03-19 10:00:00')
+				`
+			),
+		]);
+
+		const service = new MigrationService(env.DB);
+		expect(await service.migrate(migrations)).toEqual(names);
+		await expect(service.assertUpToDate()).resolves.toBeUndefined();
+
+		const reader = await env.DB.prepare(
+			'SELECT email, current_streak, is_active, timezone, streak_freezes, referral_code, deactivated_at, deleted_at FROM users'
+		).first();
+		expect(reader).toEqual({
+			email: 'reader@example.com',
+			current_streak: 3,
+			is_active: 1,
+			timezone: null,
+			streak_freezes: 0,
+			referral_code: null,
+			deactivated_at: null,
+			deleted_at: null,
+		});
+
+		// The edition calendar is backfilled from the reads, so existing streaks survive
+		const editions = await env.DB.prepare('SELECT edition_date, post_id FROM editions ORDER BY edition_date').all();
+		expect(editions.results).toEqual([
+			{ edition_date: '2024-03-18', post_id: 'post_1' },
+			{ edition_date: '2024-03-19', post_id: 'post_2' },
+		]);
+	});
+
+	it('should leave an up-to-date database alone', async () => {
+		const service = new MigrationService(env.DB);
+		await service.migrate(migrations);
+
+		expect(await service.migrate(migrations)).toEqual([]);
+		expect(await service.getVersion()).toBe(SCHEMA_VERSION);
+	});
+});
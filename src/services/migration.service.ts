@@ -0,0 +1,126 @@
+import { ServiceUnavailableError } from '../types';
+
+/**
+ * Version of the newest file in migrations/. Bump it together with every new migration:
+ * the worker refuses to serve until the database has been migrated to at least this version.
+ */
+export const SCHEMA_VERSION = 21;
+
+// Same table `wrangler d1 migrations apply` writes to (migrations_table in wrangler.toml)
+const MIGRATIONS_TABLE = `
+	CREATE TABLE IF NOT EXISTS schema_migrations (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		name TEXT UNIQUE,
+		applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+	)
+`;
+
+export interface Migration {
+	// File name in migrations/, e.g. 0001_initial_schema.sql
+	name: string;
+	sql: string;
+}
+
+/**
+ * The number a migration file starts with: 0001_initial_schema.sql is version 1.
+ */
+export function getMigrationVersion(name: string): number {
+	const match = /^(\d{4})_[\w-]+\.sql$/.exec(name);
+	if (!match) {
+		throw new Error(`Invalid migration file name: "${name}". Use NNNN_description.sql`);
+	}
+	return Number(match[1]);
+}
+
+/**
+ * Splits a migration into single statements for D1's batch, dropping `--` comments.
+ * Semicolons inside quoted strings are kept; triggers (BEGIN ... END) are not supported.
+ */
+export function splitStatements(sql: string): string[] {
+	const statements: string[] = [];
+	let current = '';
+	let quote: string | null = null;
+
+	for (let i = 0; i < sql.length; i++) {
+		const char = sql[i];
+
+		if (quote) {
+			current += char;
+			if (char === quote) {
+				quote = null;
+			}
+		} else if (char === '-' && sql[i + 1] === '-') {
+			const end = sql.indexOf('\n', i);
+			i = end === -1 ? sql.length : end - 1;
+		} else if (char === ';') {
+			statements.push(current);
+			current = '';
+		} else {
+			if (char === "'" || char === '"') {
+				quote = char;
+			}
+			current += char;
+		}
+	}
+	statements.push(current);
+
+	return statements.map((statement) => statement.trim()).filter(Boolean);
+}
+
+/**
+ * Forward-only migrations. Each migration runs in one D1 batch together with its
+ * schema_migrations row, so a failed migration leaves nothing half-applied.
+ */
+export class MigrationService {
+	constructor(private db: D1Database) {}
+
+	async getAppliedMigrations(): Promise<string[]> {
+		const table = await this.db
+			.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+			.first<{ name: string }>();
+
+		if (!table) {
+			return [];
+		}
+
+		const result = await this.db.prepare('SELECT name FROM schema_migrations ORDER BY id').all<{ name: string }>();
+		return (result?.results || []).map(({ name }) => name);
+	}
+
+	async getVersion(): Promise<number> {
+		const applied = await this.getAppliedMigrations();
+		return applied.reduce((version, name) => Math.max(version, getMigrationVersion(name)), 0);
+	}
+
+	/**
+	 * Applies the migrations that haven't run yet, in version order. Returns their names.
+	 */
+	async migrate(migrations: Migration[]): Promise<string[]> {
+		await this.db.prepare(MIGRATIONS_TABLE).run();
+
+		const applied = new Set(await this.getAppliedMigrations());
+		const pending = migrations
+			.filter(({ name }) => !applied.has(name))
+			.sort((a, b) => getMigrationVersion(a.name) - getMigrationVersion(b.name));
+
+		for (const migration of pending) {
+			await this.db.batch([
+				...splitStatements(migration.sql).map((statement) => this.db.prepare(statement)),
+				this.db.prepare('INSERT INTO schema_migrations (name) VALUES (?)').bind(migration.name),
+			]);
+		}
+
+		return pending.map(({ name }) => name);
+	}
+
+	/**
+	 * Throws when the database is behind SCHEMA_VERSION, so requests never run against an old schema.
+	 */
+	async assertUpToDate(): Promise<void> {
+		const version = await this.getVersion();
+		if (version < SCHEMA_VERSION) {
+			console.error(`Database schema is at version ${version}, but this worker requires ${SCHEMA_VERSION}. Run npm run db:migrate.`);
+			throw new ServiceUnavailableError('The service is being updated. Please try again in a few minutes.');
+		}
+	}
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { PostService, isStale } from './post.service';
+import { BeehiivClient, parseBeehiivPost } from './beehiiv.client';
+import { DatabaseService } from './db.service';
+import { Env, Post, PostMetadata } from '../types';
+
+// Just enough of the posts table for the catalog queries, plus the editions the catalog registers
+function createDb(posts: Map<string, Post>, editions = new Map<string, string>()) {
+	const statement = (sql: string, params: unknown[] = []) => ({
+		bind: (...values: unknown[]) => statement(sql, values),
+		first: async () => posts.get(params[0] as string) ?? null,
+		run: async () => {
+			const [postId, title, slug, webUrl, publishDate, fetchedAt] = params as string[];
+			if (sql.includes('INSERT OR IGNORE')) {
+				const empty = { post_id: postId, title: null, slug: null, web_url: null, publish_date: null, fetched_at: null };
+				posts.set(postId, posts.get(postId) ?? empty);
+			} else {
+				posts.set(postId, { post_id: postId, title, slug, web_url: webUrl, publish_date: publishDate, fetched_at: fetchedAt });
+			}
+			return { success: true };
+		},
+	});
+
+	return {
+		prepare: (sql: string) => statement(sql),
+		getUserTimezone: () => 'America/Sao_Paulo',
+		ensureEdition: async (day: string, postId: string) => {
+			if (![...editions.values()].includes(postId)) {
+				editions.set(day, editions.get(day) ?? postId);
+			}
+		},
+	} as unknown as DatabaseService;
+}
+
+// Local stand-in for Beehiiv: answers from `known`, or throws while `down` is set
+function createClient(known: Record<string, PostMetadata>) {
+	const client = {
+		down: false,
+		requests: 0,
+		getPost: async (postId: string) => {
+			client.requests++;
+			if (client.down) {
+				throw new Error('Beehiiv responded with 503');
+			}
+			return known[postId] ?? null;
+		},
+	};
+	return client;
+}
+
+const edition: PostMetadata = {
+	post_id: 'post_1',
+	title: 'Edição #1',
+	slug: 'edicao-1',
+	web_url: 'https://newsletter.beehiiv.com/p/edicao-1',
+	publish_date: '2024-03-20T09:00:00.000Z',
+};
+
+function createService(
+	posts = new Map<string, Post>(),
+	client: BeehiivClient = createClient({ post_1: edition }),
+	ttl = '3600',
+	editions = new Map<string, string>()
+) {
+	return new PostService(createDb(posts, editions), client, { POST_CACHE_TTL_SECONDS: ttl } as Env);
+}
+
+describe('parseBeehiivPost', () => {
+	it('should read wrapped and unwrapped bodies', () => {
+		const body = { title: 'Edição #1', slug: 'edicao-1', web_url: 'https://newsletter.beehiiv.com/p/edicao-1', publish_date: 1710925200 };
+
+		expect(parseBeehiivPost('post_1', { data: body })).toEqual(edition);
+		expect(parseBeehiivPost('post_1', body)).toEqual(edition);
+	});
+
+	it('should leave missing fields empty', () => {
+		expect(parseBeehiivPost('post_1', { data: { publish_date: null } })).toEqual({
+			post_id: 'post_1',
+			title: null,
+			slug: null,
+			web_url: null,
+			publish_date: null,
+		});
+	});
+});
+
+describe('isStale', () => {
+	const now = Date.parse('2024-03-20T12:00:00Z');
+
+	it('should compare the fetch time with the TTL', () => {
+		expect(isStale({ fetched_at: '2024-03-20T11:30:00.000Z' }, 3600, now)).toBe(false);
+		expect(isStale({ fetched_at: '2024-03-20T11:00:00.000Z' }, 3600, now)).toBe(true);
+		expect(isStale({ fetched_at: null }, 3600, now)).toBe(true);
+	});
+});
+
+describe('PostService', () => {
+	it('should serve fresh posts from the catalog', async () => {
+		const client = createClient({ post_1: edition });
+		const service = createService(new Map(), client);
+
+		expect(await service.getPost('post_1')).toMatchObject(edition);
+		expect(await service.getPost('post_1')).toMatchObject(edition);
+		expect(client.requests).toBe(1);
+	});
+
+	it('should refresh posts older than the TTL', async () => {
+		const client = createClient({ post_1: edition });
+		const service = createService(new Map(), client, '0');
+
+		await service.getPost('post_1');
+		await service.getPost('post_1');
+		expect(client.requests).toBe(2);
+	});
+
+	it('should serve the cached copy while Beehiiv is down', async () => {
+		const posts = new Map<string, Post>([['post_1', { ...edition, fetched_at: '2024-01-01T00:00:00.000Z' }]]);
+		const client = createClient({});
+		client.down = true;
+
+		expect(await createService(posts, client).getPost('post_1')).toMatchObject({ title: 'Edição #1' });
+		await expect(createService(new Map(), client).getPost('post_1')).rejects.toThrow('Failed to fetch newsletter details');
+	});
+
+	it('should answer 404 for posts Beehiiv does not know', async () => {
+		await expect(createService().getPost('post_404')).rejects.toMatchObject({ status: 404 });
+	});
+
+	it('should add a post on its first read, even when Beehiiv is down', async () => {
+		const posts = new Map<string, Post>();
+		const client = createClient({ post_1: edition });
+		client.down = true;
+		const service = createService(posts, client);
+
+		await service.ensurePost('post_1');
+		expect(posts.get('post_1')).toMatchObject({ title: null, fetched_at: null });
+
+		client.down = false;
+		await service.ensurePost('post_1');
+		expect(client.requests).toBe(1);
+
+		expect(await service.sync(['post_1', 'post_404'])).toEqual({ synced: ['post_1'], not_found: ['post_404'], failed: [] });
+		expect(posts.get('post_1')).toMatchObject({ title: 'Edição #1' });
+	});
+
+	it('should register the publish day of fetched posts as their edition', async () => {
+		const editions = new Map<string, string>();
+		const client = createClient({ post_1: edition, draft: { ...edition, post_id: 'draft', publish_date: null } });
+		const service = createService(new Map(), client, '3600', editions);
+
+		await service.getPost('post_1');
+		await service.refresh('draft');
+		await service.ensurePost('post_404');
+
+		// 09:00 UTC is 06:00 in São Paulo, the publication's timezone
+		expect(Object.fromEntries(editions)).toEqual({ '2024-03-20': 'post_1' });
+	});
+});
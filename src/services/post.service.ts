@@ -0,0 +1,176 @@
+import { DatabaseService } from './db.service';
+import { BeehiivClient } from './beehiiv.client';
+import { toLocalDay } from './timezone.service';
+import { Env, NotFoundError, Post, PostMetadata, PostSyncResult, UpstreamError, ValidationError } from '../types';
+
+const DEFAULT_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+// Each post is one Beehiiv request, and a request can only make 50 subrequests
+const MAX_SYNC_POSTS = 40;
+
+/**
+ * Whether a cached post is due for a refresh. Posts Beehiiv never answered for are always stale.
+ */
+export function isStale(post: Pick<Post, 'fetched_at'>, ttlSeconds: number, now = Date.now()): boolean {
+	return !post.fetched_at || now - Date.parse(post.fetched_at) >= ttlSeconds * 1000;
+}
+
+/**
+ * Local catalog of Beehiiv posts, so titles and publish dates can be joined into reports
+ * without calling Beehiiv on every request.
+ */
+export class PostService {
+	constructor(private db: DatabaseService, private beehiiv: BeehiivClient, private env: Env) {}
+
+	get cacheTtlSeconds(): number {
+		const ttl = Number(this.env.POST_CACHE_TTL_SECONDS);
+		return this.env.POST_CACHE_TTL_SECONDS && Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS;
+	}
+
+	async getCachedPost(postId: string): Promise<Post | null> {
+		return this.db
+			.prepare('SELECT post_id, title, slug, web_url, publish_date, fetched_at FROM posts WHERE post_id = ?')
+			.bind(postId)
+			.first<Post>();
+	}
+
+	/**
+	 * The post from the catalog, refreshed from Beehiiv once older than POST_CACHE_TTL_SECONDS.
+	 * While Beehiiv is down the cached copy is served as is.
+	 */
+	async getPost(postId: string): Promise<Post> {
+		const cached = await this.getCachedPost(postId);
+		if (cached && !isStale(cached, this.cacheTtlSeconds)) {
+			return cached;
+		}
+
+		let post: Post | null;
+		try {
+			post = await this.refresh(postId);
+		} catch (error) {
+			if (cached?.fetched_at) {
+				console.error(`Error refreshing post ${postId} from Beehiiv, serving the cached copy:`, error);
+				return cached;
+			}
+			console.error(`Error fetching post ${postId} from Beehiiv:`, error);
+			throw new UpstreamError('Failed to fetch newsletter details from Beehiiv. Please try again later.');
+		}
+
+		if (!post) {
+			throw new NotFoundError('Post not found');
+		}
+		return post;
+	}
+
+	/**
+	 * Adds a post to the catalog the first time it is read. Never throws: when Beehiiv can't be
+	 * reached the post is added without metadata, and the next refresh or sync fills it in.
+	 */
+	async ensurePost(postId: string): Promise<void> {
+		if (await this.getCachedPost(postId)) {
+			return;
+		}
+
+		try {
+			await this.refresh(postId);
+			return;
+		} catch (error) {
+			console.error(`Error fetching post ${postId} from Beehiiv:`, error);
+		}
+
+		try {
+			await this.db.prepare('INSERT OR IGNORE INTO posts (post_id) VALUES (?)').bind(postId).run();
+		} catch (error) {
+			console.error(`Error adding post ${postId} to the catalog:`, error);
+		}
+	}
+
+	/**
+	 * Fetches the post from Beehiiv and stores it. Resolves to null when Beehiiv doesn't know it.
+	 * A published post also registers its publish day, in the publication's timezone, as an edition:
+	 * this is the only way editions are created besides the admin calendar, so reads can't add them.
+	 */
+	async refresh(postId: string): Promise<Post | null> {
+		const metadata = await this.beehiiv.getPost(postId);
+		if (!metadata) {
+			return null;
+		}
+
+		const now = new Date().toISOString();
+		await this.save(metadata, now);
+		if (metadata.publish_date) {
+			await this.db.ensureEdition(toLocalDay(new Date(metadata.publish_date), this.db.getUserTimezone()), postId);
+		}
+		return { ...metadata, fetched_at: now };
+	}
+
+	/**
+	 * Refreshes the given posts, or when none are given, the posts that were read or scheduled
+	 * without metadata first and then the least recently fetched ones, up to MAX_SYNC_POSTS.
+	 */
+	async sync(postIds?: string[]): Promise<PostSyncResult> {
+		if (postIds && (!Array.isArray(postIds) || postIds.some((postId) => typeof postId !== 'string' || !postId.trim()))) {
+			throw new ValidationError('post_ids must be a list of post IDs');
+		}
+		if (postIds && postIds.length > MAX_SYNC_POSTS) {
+			throw new ValidationError(`At most ${MAX_SYNC_POSTS} posts can be synced at once`);
+		}
+
+		const targets = postIds?.length ? [...new Set(postIds)] : await this.getSyncCandidates();
+		const result: PostSyncResult = { synced: [], not_found: [], failed: [] };
+
+		for (const postId of targets) {
+			try {
+				const post = await this.refresh(postId);
+				(post ? result.synced : result.not_found).push(postId);
+			} catch (error) {
+				console.error(`Error syncing post ${postId} from Beehiiv:`, error);
+				result.failed.push(postId);
+			}
+		}
+
+		return result;
+	}
+
+	private async getSyncCandidates(): Promise<string[]> {
+		const result = await this.db
+			.prepare(
+				`
+				SELECT ids.post_id
+				FROM (
+					SELECT post_id FROM reading_stats
+					UNION
+					SELECT post_id FROM editions WHERE post_id IS NOT NULL
+					UNION
+					SELECT post_id FROM posts
+				) ids
+				LEFT JOIN posts p ON p.post_id = ids.post_id
+				ORDER BY p.fetched_at IS NOT NULL, p.fetched_at ASC
+				LIMIT ?
+			`
+			)
+			.bind(MAX_SYNC_POSTS)
+			.all<{ post_id: string }>();
+
+		return (result?.results || []).map(({ post_id }) => post_id);
+	}
+
+	private async save(metadata: PostMetadata, fetchedAt: string): Promise<void> {
+		await this.db
+			.prepare(
+				`
+				INSERT INTO posts (post_id, title, slug, web_url, publish_date, fetched_at, updated_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(post_id) DO UPDATE SET
+					title = excluded.title,
+					slug = excluded.slug,
+					web_url = excluded.web_url,
+					publish_date = excluded.publish_date,
+					fetched_at = excluded.fetched_at,
+					updated_at = excluded.updated_at
+			`
+			)
+			.bind(metadata.post_id, metadata.title, metadata.slug, metadata.web_url, metadata.publish_date, fetchedAt, fetchedAt)
+			.run();
+	}
+}
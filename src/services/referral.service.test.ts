@@ -0,0 +1,93 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatabaseService } from './db.service';
+import { generateReferralCode, maskEmail, REFERRAL_REWARD_XP, ReferralService } from './referral.service';
+import { WebhookService } from './webhook.service';
+import { migrate } from '../test-helpers';
+import { Env } from '../types';
+
+describe('generateReferralCode', () => {
+	it('should generate 8 character codes without ambiguous characters', () => {
+		for (let i = 0; i < 50; i++) {
+			expect(generateReferralCode()).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+		}
+	});
+});
+
+describe('maskEmail', () => {
+	it('should keep only the start of the local part', () => {
+		expect(maskEmail('joana.silva@gmail.com')).toBe('jo***@gmail.com');
+		expect(maskEmail('a@b.com')).toBe('a***@b.com');
+	});
+});
+
+describe('referrals on D1', () => {
+	const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+	const referrals = new ReferralService(db, {} as Env);
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, referral_code) VALUES
+					(1, 'referrer@example.com', 'ABCD2345'),
+					(2, 'referred@example.com', NULL)
+				`
+			),
+			env.DB.prepare(
+				`
+				WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 5)
+				INSERT INTO editions (edition_date, post_id) SELECT printf('2024-03-%02d', i), 'post_' || i FROM n
+				`
+			),
+		]);
+	});
+
+	async function getReferrals() {
+		return (await env.DB.prepare('SELECT referrer_id, referred_id, code, status FROM referrals').all()).results;
+	}
+
+	async function readEditions(...editions: number[]) {
+		const read = env.DB.prepare('INSERT INTO reading_stats (user_id, post_id, read_date) VALUES (2, ?, ?)');
+		await env.DB.batch(editions.map((i) => read.bind(`post_${i}`, `2024-03-0${i} 12:00:00`)));
+	}
+
+	it('should ignore unknown codes and self-referrals', async () => {
+		expect(await db.recordReferral(2, 'UNKNOWN1')).toBe(false);
+		expect(await db.recordReferral(1, 'ABCD2345')).toBe(false);
+		expect(await getReferrals()).toEqual([]);
+
+		expect(await db.recordReferral(2, ' abcd2345 ')).toBe(true);
+		expect(await db.recordReferral(2, 'ABCD2345')).toBe(false);
+		expect(await getReferrals()).toEqual([{ referrer_id: 1, referred_id: 2, code: 'ABCD2345', status: 'pending' }]);
+	});
+
+	it('should reward the referrer once, after the required edition reads', async () => {
+		await db.recordReferral(2, 'ABCD2345');
+
+		// Reading the same edition twice counts once
+		await readEditions(1, 2, 3, 4, 4);
+		expect(await referrals.checkReward(2)).toBe(false);
+
+		await readEditions(5);
+		expect(await referrals.checkReward(2)).toBe(true);
+		expect(await referrals.checkReward(2)).toBe(false);
+
+		const ledger = await env.DB.prepare('SELECT user_id, amount, reason FROM xp_ledger').all();
+		expect(ledger.results).toEqual([{ user_id: 1, amount: REFERRAL_REWARD_XP, reason: 'referral' }]);
+		expect(await getReferrals()).toMatchObject([{ status: 'rewarded' }]);
+	});
+
+	it('should only credit a webhook subscription that creates the reader', async () => {
+		const webhooks = new WebhookService(db, {} as Env);
+		const subscribe = (uid: string, email: string) =>
+			webhooks.handleEvent({ uid, event_type: 'subscription.created', data: { email, referral_code: 'ABCD2345' } });
+
+		await subscribe('evt_existing', 'referred@example.com');
+		await subscribe('evt_new', 'new@example.com');
+
+		const referred = await env.DB.prepare('SELECT u.email FROM referrals r JOIN users u ON u.id = r.referred_id').all();
+		expect(referred.results).toEqual([{ email: 'new@example.com' }]);
+	});
+});
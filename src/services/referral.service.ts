@@ -0,0 +1,172 @@
+import { DatabaseService, readDaySql } from './db.service';
+import { Env, NotFoundError, Referral, ReferralSummary, TopReferrer } from '../types';
+
+// The referrer is only rewarded after the referred reader has read this many editions
+export const REFERRAL_REQUIRED_READS = 5;
+export const REFERRAL_REWARD_XP = 50;
+
+// No 0/O or 1/I, so codes are easy to type from a printed link
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const CODE_ATTEMPTS = 3;
+
+const TOP_REFERRERS_LIMIT = 10;
+
+// Editions read by the referred reader, the progress towards unlocking the reward
+const REFERRED_READS = `
+	SELECT COUNT(DISTINCT e.edition_date)
+	FROM reading_stats rs
+	JOIN editions e ON e.edition_date = ${readDaySql('rs')}
+	WHERE rs.user_id = r.referred_id`;
+
+export function generateReferralCode(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+	return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Hides most of an email's local part, e.g. `jo***@gmail.com`.
+ */
+export function maskEmail(email: string): string {
+	const [local, domain] = email.split('@');
+	return `${local.slice(0, 2)}***@${domain}`;
+}
+
+export class ReferralService {
+	constructor(private db: DatabaseService, private env: Env) {}
+
+	/**
+	 * Returns the user's referral code, generating one the first time it is needed.
+	 */
+	async getOrCreateCode(userId: number): Promise<string> {
+		for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+			const user = await this.db
+				.prepare('SELECT referral_code FROM users WHERE id = ?')
+				.bind(userId)
+				.first<{ referral_code: string | null }>();
+			if (!user) {
+				throw new NotFoundError('User not found');
+			}
+			if (user.referral_code) {
+				return user.referral_code;
+			}
+
+			try {
+				await this.db
+					.prepare('UPDATE users SET referral_code = ? WHERE id = ? AND referral_code IS NULL')
+					.bind(generateReferralCode(), userId)
+					.run();
+			} catch (error) {
+				// Another user already has this code; try a new one
+				console.error('Referral code collision:', error);
+			}
+		}
+
+		throw new Error('Failed to generate a referral code. Please try again later.');
+	}
+
+	getReferralLink(code: string): string | null {
+		if (!this.env.REFERRAL_BASE_URL) {
+			return null;
+		}
+
+		const link = new URL(this.env.REFERRAL_BASE_URL);
+		link.searchParams.set('ref', code);
+		return link.toString();
+	}
+
+	async getReferrals(userId: number): Promise<ReferralSummary> {
+		const code = await this.getOrCreateCode(userId);
+
+		return {
+			code,
+			link: this.getReferralLink(code),
+			required_reads: REFERRAL_REQUIRED_READS,
+			reward_xp: REFERRAL_REWARD_XP,
+			referrals: await this.listReferrals(userId),
+		};
+	}
+
+	async listReferrals(userId: number): Promise<Referral[]> {
+		const result = await this.db
+			.prepare(
+				`
+				SELECT u.email, r.status, r.created_at, r.rewarded_at, (${REFERRED_READS}) as reads
+				FROM referrals r
+				JOIN users u ON u.id = r.referred_id
+				WHERE r.referrer_id = ?
+				ORDER BY r.created_at DESC, r.id DESC
+				`
+			)
+			.bind(userId)
+			.all<Omit<Referral, 'referred'> & { email: string }>();
+
+		return (result?.results || []).map(({ email, ...referral }) => ({
+			referred: maskEmail(email),
+			...referral,
+			reads: Math.min(referral.reads, REFERRAL_REQUIRED_READS),
+		}));
+	}
+
+	/**
+	 * Rewards the referrer once the referred reader reaches the required number of reads.
+	 * Safe to call after every read: a referral is only rewarded once.
+	 */
+	async checkReward(referredId: number): Promise<boolean> {
+		const referral = await this.db
+			.prepare(`SELECT r.id, r.referrer_id, (${REFERRED_READS}) as reads FROM referrals r WHERE r.referred_id = ? AND r.status = 'pending'`)
+			.bind(referredId)
+			.first<{ id: number; referrer_id: number; reads: number }>();
+
+		if (!referral || referral.reads < REFERRAL_REQUIRED_READS) {
+			return false;
+		}
+
+		const [updated] = await this.db.batch([
+			this.db
+				.prepare("UPDATE referrals SET status = 'rewarded', rewarded_at = ? WHERE id = ? AND status = 'pending'")
+				.bind(new Date().toISOString(), referral.id),
+			this.db
+				.prepare('INSERT OR IGNORE INTO xp_ledger (user_id, amount, reason, source, reference) VALUES (?, ?, ?, ?, ?)')
+				.bind(referral.referrer_id, REFERRAL_REWARD_XP, 'referral', 'referral', `referral:${referral.id}`),
+		]);
+
+		return Boolean(updated?.meta?.changes);
+	}
+
+	async getTopReferrers(filters: { startDate?: string; endDate?: string } = {}): Promise<TopReferrer[]> {
+		const conditions: string[] = [];
+		const params: string[] = [];
+
+		if (filters.startDate) {
+			conditions.push('date(r.created_at) >= date(?)');
+			params.push(filters.startDate);
+		}
+
+		if (filters.endDate) {
+			conditions.push('date(r.created_at) <= date(?)');
+			params.push(filters.endDate);
+		}
+
+		const result = await this.db
+			.prepare(
+				`
+				SELECT
+					u.email,
+					COUNT(*) as referrals,
+					SUM(CASE WHEN r.status = 'rewarded' THEN 1 ELSE 0 END) as rewarded,
+					SUM(CASE WHEN r.status = 'pending' THEN 1 ELSE 0 END) as pending
+				FROM referrals r
+				JOIN users u ON u.id = r.referrer_id
+				${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+				GROUP BY u.id
+				ORDER BY rewarded DESC, referrals DESC
+				LIMIT ${TOP_REFERRERS_LIMIT}
+				`
+			)
+			.bind(...params)
+			.all<TopReferrer>();
+
+		return result?.results || [];
+	}
+}
@@ -0,0 +1,42 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseService } from './db.service';
+import { SnapshotService, buildStreakDistribution } from './snapshot.service';
+import { StreakService } from './streak.service';
+import { migrate } from '../test-helpers';
+
+describe('buildStreakDistribution', () => {
+	it('should count readers per streak bucket', () => {
+		const counts = [
+			{ streak: 0, users: 120 },
+			{ streak: 1, users: 25 },
+			{ streak: 6, users: 15 },
+			{ streak: 7, users: 10 },
+			{ streak: 29, users: 2 },
+			{ streak: 30, users: 3 },
+			{ streak: 365, users: 1 },
+		];
+
+		expect(buildStreakDistribution(counts)).toEqual({ '0': 120, '1-6': 40, '7-29': 12, '30-99': 3, '100+': 1 });
+	});
+
+	it('should include empty buckets', () => {
+		expect(buildStreakDistribution([])).toEqual({ '0': 0, '1-6': 0, '7-29': 0, '30-99': 0, '100+': 0 });
+	});
+});
+
+describe('SnapshotService.runNightly', () => {
+	it('should write the snapshot even when closing streaks fails', async () => {
+		await migrate(env.DB);
+		const streakService = {
+			closeBrokenStreaks: vi.fn().mockRejectedValue(new Error('Too many API requests by single worker invocation')),
+		} as unknown as StreakService;
+		const service = new SnapshotService(new DatabaseService(env.DB, 'America/Sao_Paulo'), streakService);
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const snapshot = await service.runNightly(new Date('2024-03-21T06:00:00Z'));
+
+		expect(snapshot).toMatchObject({ date: '2024-03-20', streaks_reset: 0 });
+		expect(await env.DB.prepare('SELECT snapshot_date FROM daily_snapshots').all()).toMatchObject({ results: [{ snapshot_date: '2024-03-20' }] });
+	});
+});
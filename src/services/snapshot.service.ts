@@ -0,0 +1,176 @@
+import { DatabaseService, countedSubscriberSql } from './db.service';
+import { StreakService } from './streak.service';
+import { addDays, toLocalDay } from './timezone.service';
+import { DailySnapshot, HistoricalStats, ValidationError } from '../types';
+
+// Lower bounds of the streak distribution buckets, in line with the streak badges
+export const STREAK_BUCKETS = [0, 1, 7, 30, 100];
+
+// Days shown by the historical charts for each period; 7d when neither a period nor dates are given
+const PERIOD_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+function bucketLabel(index: number): string {
+	const lower = STREAK_BUCKETS[index];
+	if (index === STREAK_BUCKETS.length - 1) {
+		return `${lower}+`;
+	}
+
+	const upper = STREAK_BUCKETS[index + 1] - 1;
+	return lower === upper ? `${lower}` : `${lower}-${upper}`;
+}
+
+/**
+ * Counts readers per streak bucket ('0', '1-6', '7-29', '30-99', '100+'). Every bucket is present.
+ */
+export function buildStreakDistribution(counts: Array<{ streak: number; users: number }>): Record<string, number> {
+	const distribution: Record<string, number> = Object.fromEntries(STREAK_BUCKETS.map((_, index) => [bucketLabel(index), 0]));
+
+	for (const { streak, users } of counts) {
+		let index = STREAK_BUCKETS.length - 1;
+		while (index > 0 && streak < STREAK_BUCKETS[index]) {
+			index--;
+		}
+		distribution[bucketLabel(index)] += users;
+	}
+
+	return distribution;
+}
+
+/**
+ * Daily snapshots of publication-wide stats. Stored streaks only describe today, so the
+ * nightly job records them once each day is over for the historical charts.
+ */
+export class SnapshotService {
+	constructor(private db: DatabaseService, private streakService: StreakService) {}
+
+	/**
+	 * The nightly job: closes the streaks broken by the day that just ended in the publication's
+	 * timezone, then writes that day's snapshot. The snapshot is written even when closing the
+	 * streaks fails, so the historical charts have no gaps. Safe to run again; the snapshot is replaced.
+	 */
+	async runNightly(now = new Date()): Promise<DailySnapshot> {
+		const day = addDays(toLocalDay(now, this.db.getUserTimezone()), -1);
+
+		let streaksReset = 0;
+		try {
+			streaksReset = await this.streakService.closeBrokenStreaks(now);
+		} catch (error) {
+			console.error(`Nightly job: error closing broken streaks, writing the snapshot for ${day} anyway:`, error);
+		}
+
+		return this.writeSnapshot(day, streaksReset);
+	}
+
+	async writeSnapshot(day: string, streaksReset = 0): Promise<DailySnapshot> {
+		// Active subscribers who had signed up by the end of the day
+		const members = `FROM users WHERE email != 'admin@example.com' AND ${countedSubscriberSql('users')} AND date(created_at) <= date(?)`;
+
+		const [totals, readers, streaks, isEditionDay] = await Promise.all([
+			this.db
+				.prepare(`SELECT COUNT(*) as total_users, COALESCE(ROUND(AVG(current_streak), 2), 0) as avg_streak ${members}`)
+				.bind(day)
+				.first<{ total_users: number; avg_streak: number }>(),
+			this.db
+				.prepare(
+					`
+					-- Readers of the day's edition, whenever they read it, or of any post that day without one
+					SELECT COUNT(DISTINCT r.user_id) as active_readers
+					FROM reading_stats r
+					JOIN users u ON u.id = r.user_id
+					WHERE u.email != 'admin@example.com'
+					AND ${countedSubscriberSql()}
+					AND (
+						r.post_id IN (SELECT post_id FROM editions WHERE edition_date = date(?))
+						OR (date(r.read_date) = date(?) AND NOT EXISTS (SELECT 1 FROM editions e WHERE e.post_id = r.post_id))
+					)
+					`
+				)
+				.bind(day, day)
+				.first<{ active_readers: number }>(),
+			this.db
+				.prepare(`SELECT COALESCE(current_streak, 0) as streak, COUNT(*) as users ${members} GROUP BY streak`)
+				.bind(day)
+				.all<{ streak: number; users: number }>(),
+			this.db.isEditionDay(day),
+		]);
+
+		const totalUsers = totals?.total_users || 0;
+		const activeReaders = readers?.active_readers || 0;
+
+		const snapshot: DailySnapshot = {
+			date: day,
+			is_edition_day: isEditionDay,
+			total_users: totalUsers,
+			active_readers: activeReaders,
+			opening_rate: isEditionDay ? (totalUsers ? Math.round((activeReaders / totalUsers) * 10000) / 100 : 0) : null,
+			avg_streak: totals?.avg_streak || 0,
+			streak_distribution: buildStreakDistribution(streaks?.results || []),
+			streaks_reset: streaksReset,
+		};
+
+		await this.db
+			.prepare(
+				`
+				INSERT OR REPLACE INTO daily_snapshots (
+					snapshot_date, is_edition_day, total_users, active_readers,
+					opening_rate, avg_streak, streak_distribution, streaks_reset
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+				`
+			)
+			.bind(
+				snapshot.date,
+				snapshot.is_edition_day ? 1 : 0,
+				snapshot.total_users,
+				snapshot.active_readers,
+				snapshot.opening_rate,
+				snapshot.avg_streak,
+				JSON.stringify(snapshot.streak_distribution),
+				snapshot.streaks_reset
+			)
+			.run();
+
+		return snapshot;
+	}
+
+	/**
+	 * Snapshots of the edition days in the range, for the historical admin charts. The range
+	 * defaults to the last `period` (7d, 30d or 90d) up to yesterday, the latest day with a snapshot.
+	 */
+	async getHistoricalStats(options: { startDate?: string; endDate?: string; period?: string } = {}): Promise<HistoricalStats> {
+		const period = options.period || '7d';
+		if (!PERIOD_DAYS[period]) {
+			throw new ValidationError(`Invalid period: "${period}". Use one of: ${Object.keys(PERIOD_DAYS).join(', ')}`);
+		}
+
+		const endDate = options.endDate || addDays(await this.db.getToday(), -1);
+		const startDate = options.startDate || addDays(endDate, -(PERIOD_DAYS[period] - 1));
+		if (startDate > endDate) {
+			throw new ValidationError('startDate must be before endDate');
+		}
+
+		const result = await this.db
+			.prepare(
+				`
+				SELECT
+					snapshot_date as date, is_edition_day, total_users, active_readers,
+					opening_rate, avg_streak, streak_distribution, streaks_reset
+				FROM daily_snapshots
+				WHERE snapshot_date >= date(?) AND snapshot_date <= date(?)
+				AND is_edition_day = 1
+				ORDER BY snapshot_date ASC
+				`
+			)
+			.bind(startDate, endDate)
+			.all<Omit<DailySnapshot, 'is_edition_day' | 'streak_distribution'> & { is_edition_day: number; streak_distribution: string }>();
+
+		return {
+			start_date: startDate,
+			end_date: endDate,
+			daily_stats: (result?.results || []).map((row) => ({
+				...row,
+				is_edition_day: Boolean(row.is_edition_day),
+				streak_distribution: JSON.parse(row.streak_distribution),
+			})),
+		};
+	}
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { computeStreaks, findStreakMilestone, getCurrentRun } from './streak.engine';
+
+// Mon 2024-03-04 .. Sat 2024-03-16, no Sunday edition on 2024-03-10
+const editions = [
+	'2024-03-04',
+	'2024-03-05',
+	'2024-03-06',
+	'2024-03-07',
+	'2024-03-08',
+	'2024-03-09',
+	'2024-03-11',
+	'2024-03-12',
+	'2024-03-13',
+	'2024-03-14',
+	'2024-03-15',
+	'2024-03-16',
+];
+
+describe('computeStreaks', () => {
+	it('should return zero streaks without reads', () => {
+		expect(computeStreaks([], editions, '2024-03-16')).toEqual({ current_streak: 0, highest_streak: 0, past_streaks: [] });
+	});
+
+	it('should return zero streaks without editions', () => {
+		expect(computeStreaks(['2024-03-04'], [], '2024-03-16')).toEqual({ current_streak: 0, highest_streak: 0, past_streaks: [] });
+	});
+
+	it('should count a single read on today as a streak of one', () => {
+		expect(computeStreaks(['2024-03-16'], editions, '2024-03-16')).toMatchObject({ current_streak: 1, highest_streak: 1 });
+	});
+
+	it('should count consecutive editions', () => {
+		const result = computeStreaks(['2024-03-12', '2024-03-13', '2024-03-14'], editions, '2024-03-14');
+		expect(result).toEqual({ current_streak: 3, highest_streak: 3, past_streaks: [] });
+	});
+
+	it('should not break the streak on days without an edition', () => {
+		const result = computeStreaks(['2024-03-08', '2024-03-09', '2024-03-11'], editions, '2024-03-11');
+		expect(result.current_streak).toBe(3);
+	});
+
+	it('should ignore reads on days without an edition', () => {
+		const result = computeStreaks(['2024-03-09', '2024-03-10', '2024-03-11'], editions, '2024-03-11');
+		expect(result.current_streak).toBe(2);
+		expect(result.highest_streak).toBe(2);
+	});
+
+	it("should keep the streak alive while today's edition is unread", () => {
+		const result = computeStreaks(['2024-03-13', '2024-03-14'], editions, '2024-03-15');
+		expect(result.current_streak).toBe(2);
+	});
+
+	it('should keep the streak alive on a day without an edition', () => {
+		const result = computeStreaks(['2024-03-08', '2024-03-09'], editions, '2024-03-10');
+		expect(result.current_streak).toBe(2);
+	});
+
+	it('should end the current streak after a missed edition', () => {
+		const result = computeStreaks(['2024-03-12', '2024-03-13'], editions, '2024-03-15');
+		expect(result.current_streak).toBe(0);
+		expect(result.highest_streak).toBe(2);
+		expect(result.past_streaks).toEqual([{ start_date: '2024-03-12', end_date: '2024-03-13', length: 2 }]);
+	});
+
+	it('should keep the current streak over a single missed edition while a freeze is left', () => {
+		const reads = ['2024-03-12', '2024-03-13'];
+
+		expect(computeStreaks(reads, editions, '2024-03-15', 1)).toMatchObject({ current_streak: 2, past_streaks: [] });
+		expect(computeStreaks(reads, editions, '2024-03-16', 1).current_streak).toBe(0);
+	});
+
+	it('should restart after a gap and keep the highest streak', () => {
+		const reads = ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-11', '2024-03-12'];
+		const result = computeStreaks(reads, editions, '2024-03-12');
+
+		expect(result.current_streak).toBe(2);
+		expect(result.highest_streak).toBe(4);
+		expect(result.past_streaks).toEqual([{ start_date: '2024-03-04', end_date: '2024-03-07', length: 4 }]);
+	});
+
+	it('should list every past streak in order', () => {
+		const reads = ['2024-03-04', '2024-03-06', '2024-03-07', '2024-03-09', '2024-03-11', '2024-03-12', '2024-03-14'];
+		const result = computeStreaks(reads, editions, '2024-03-16');
+
+		expect(result.current_streak).toBe(0);
+		expect(result.highest_streak).toBe(3);
+		expect(result.past_streaks).toEqual([
+			{ start_date: '2024-03-04', end_date: '2024-03-04', length: 1 },
+			{ start_date: '2024-03-06', end_date: '2024-03-07', length: 2 },
+			{ start_date: '2024-03-09', end_date: '2024-03-12', length: 3 },
+			{ start_date: '2024-03-14', end_date: '2024-03-14', length: 1 },
+		]);
+	});
+
+	it('should ignore editions and reads after today', () => {
+		const result = computeStreaks(['2024-03-11', '2024-03-12', '2024-03-13'], editions, '2024-03-12');
+		expect(result.current_streak).toBe(2);
+		expect(result.highest_streak).toBe(2);
+	});
+
+	it('should count a special Sunday edition like any other', () => {
+		const withSunday = [...editions, '2024-03-10'];
+
+		expect(computeStreaks(['2024-03-09', '2024-03-11'], withSunday, '2024-03-11').current_streak).toBe(1);
+		expect(computeStreaks(['2024-03-09', '2024-03-10', '2024-03-11'], withSunday, '2024-03-11').current_streak).toBe(3);
+	});
+
+	it('should bridge a holiday removed from the calendar', () => {
+		const withoutHoliday = editions.filter((day) => day !== '2024-03-13');
+		expect(computeStreaks(['2024-03-12', '2024-03-14'], withoutHoliday, '2024-03-14').current_streak).toBe(2);
+	});
+
+	it('should accept unsorted and duplicated input', () => {
+		const result = computeStreaks(['2024-03-13', '2024-03-12', '2024-03-13'], [...editions].reverse(), '2024-03-13');
+		expect(result.current_streak).toBe(2);
+	});
+});
+
+describe('findStreakMilestone', () => {
+	it('should return the edition on which the streak length was first reached', () => {
+		const reads = ['2024-03-04', '2024-03-05', '2024-03-07', '2024-03-08', '2024-03-09', '2024-03-11'];
+
+		expect(findStreakMilestone(reads, editions, 1)).toBe('2024-03-04');
+		expect(findStreakMilestone(reads, editions, 2)).toBe('2024-03-05');
+		expect(findStreakMilestone(reads, editions, 4)).toBe('2024-03-11');
+	});
+
+	it('should return null when the streak length was never reached', () => {
+		expect(findStreakMilestone(['2024-03-04', '2024-03-05'], editions, 3)).toBeNull();
+	});
+});
+
+describe('getCurrentRun', () => {
+	it('should return the run of the current streak', () => {
+		const reads = ['2024-03-04', '2024-03-11', '2024-03-12'];
+		expect(getCurrentRun(reads, editions, '2024-03-13')).toEqual({ start_date: '2024-03-11', end_date: '2024-03-12', length: 2 });
+	});
+
+	it('should return null without a current streak', () => {
+		expect(getCurrentRun(['2024-03-11'], editions, '2024-03-13')).toBeNull();
+	});
+});
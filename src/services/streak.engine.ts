@@ -0,0 +1,101 @@
+import { StreakResult, StreakRun } from '../types';
+
+/**
+ * The single streak calculation used by ingestion, user stats, badges and reports.
+ *
+ * A streak is a run of consecutive editions (from the edition calendar) that the reader
+ * read. Reads on days without an edition are ignored and never break a streak. Missing an
+ * edition ends the run. `readDays` should include days covered by a used streak freeze.
+ *
+ * The current streak is the run ending at the latest edition up to `today`. Today's
+ * edition does not break it while the day is still open: if it hasn't been read yet,
+ * the run ending at the previous edition is still current. A reader with an unspent
+ * freeze (`freezes`) who missed just the last closed edition keeps their current streak:
+ * the freeze is spent when they read again (see StreakService.updateStreak).
+ *
+ * All dates are calendar days in `YYYY-MM-DD` format.
+ */
+export function computeStreaks(readDays: Iterable<string>, editionDays: Iterable<string>, today: string, freezes = 0): StreakResult {
+	const { runs, current } = collectRuns(readDays, editionDays, today, freezes);
+
+	return {
+		current_streak: current?.length ?? 0,
+		highest_streak: runs.reduce((highest, { length }) => Math.max(highest, length), 0),
+		past_streaks: runs.filter((streak) => streak !== current),
+	};
+}
+
+/**
+ * The run the current streak is made of, or null when the reader has no current streak.
+ * Same rules as `computeStreaks`.
+ */
+export function getCurrentRun(readDays: Iterable<string>, editionDays: Iterable<string>, today: string, freezes = 0): StreakRun | null {
+	return collectRuns(readDays, editionDays, today, freezes).current;
+}
+
+function collectRuns(
+	readDays: Iterable<string>,
+	editionDays: Iterable<string>,
+	today: string,
+	freezes: number
+): { runs: StreakRun[]; current: StreakRun | null } {
+	const read = new Set(readDays);
+	const editions = [...new Set(editionDays)].filter((day) => day <= today).sort();
+
+	const runs: StreakRun[] = [];
+	let run: StreakRun | null = null;
+	// Closed editions missed since the last run
+	let missed = 0;
+
+	for (const day of editions) {
+		if (read.has(day)) {
+			if (run) {
+				run.end_date = day;
+				run.length++;
+			} else {
+				run = { start_date: day, end_date: day, length: 1 };
+			}
+			missed = 0;
+			continue;
+		}
+
+		// Today's edition can still be read, so it doesn't close the running streak
+		if (day === today) {
+			break;
+		}
+
+		if (run) {
+			runs.push(run);
+			run = null;
+		}
+		missed++;
+	}
+
+	if (run) {
+		runs.push(run);
+	}
+
+	// A single missed edition can still be covered by a freeze
+	const current = run ?? (freezes > 0 && missed === 1 && runs.length ? runs[runs.length - 1] : null);
+
+	return { runs, current };
+}
+
+/**
+ * The edition day on which the reader first reached a streak of `length` editions,
+ * or null if they never did.
+ */
+export function findStreakMilestone(readDays: Iterable<string>, editionDays: Iterable<string>, length: number): string | null {
+	const read = new Set(readDays);
+	const editions = [...new Set(editionDays)].sort();
+
+	let streak = 0;
+	for (const day of editions) {
+		streak = read.has(day) ? streak + 1 : 0;
+		if (streak >= length) {
+			return day;
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,59 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { DatabaseService } from './db.service';
+import { StreakService } from './streak.service';
+import { migrate } from '../test-helpers';
+
+describe('StreakService.closeBrokenStreaks', () => {
+	it('should reset the streaks of readers who missed an edition they had no freeze for', async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO editions (edition_date, post_id) VALUES
+					('2024-03-18', 'post_1'), ('2024-03-19', 'post_2'), ('2024-03-20', 'post_3'), ('2024-03-21', 'post_4')
+				`
+			),
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, current_streak, highest_streak, streak_freezes) VALUES
+					(1, 'up-to-date@example.com', 3, 3, 0),
+					(2, 'frozen@example.com', 2, 2, 1),
+					(3, 'missed-one@example.com', 2, 2, 0),
+					(4, 'missed-two@example.com', 1, 4, 1)
+				`
+			),
+			// The edition read counts, not the reader's local day: reader 1 read post_3 late
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date) VALUES
+					(1, 'post_1', '2024-03-18 08:00:00'),
+					(1, 'post_2', '2024-03-19 08:00:00'),
+					(1, 'post_3', '2024-03-21 01:00:00'),
+					(2, 'post_1', '2024-03-18 08:00:00'),
+					(2, 'post_2', '2024-03-19 08:00:00'),
+					(3, 'post_1', '2024-03-18 08:00:00'),
+					(3, 'post_2', '2024-03-19 08:00:00'),
+					(4, 'post_1', '2024-03-18 08:00:00')
+				`
+			),
+		]);
+
+		// 2024-03-21 in São Paulo: today's edition can still be read
+		const now = new Date('2024-03-21T15:00:00Z');
+		const db = new DatabaseService(env.DB, 'America/Sao_Paulo');
+		const service = new StreakService(db);
+		expect(await service.closeBrokenStreaks(now)).toBe(2);
+
+		// Recalculating the reader on their own, as their statistics do, applies the same rule
+		expect((await db.recalculateStreaks([2], now)).get(2)).toMatchObject({ current_streak: 2 });
+
+		const users = await env.DB.prepare('SELECT id, current_streak, highest_streak FROM users ORDER BY id').all();
+		expect(users.results).toEqual([
+			{ id: 1, current_streak: 3, highest_streak: 3 },
+			{ id: 2, current_streak: 2, highest_streak: 2 },
+			{ id: 3, current_streak: 0, highest_streak: 2 },
+			{ id: 4, current_streak: 0, highest_streak: 4 },
+		]);
+	});
+});
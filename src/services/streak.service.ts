@@ -1,51 +1,70 @@
 import { DatabaseService } from './db.service';
+import { toLocalDay } from './timezone.service';
+
+// One freeze is earned for every 10 consecutive reads, up to 3 in stock
+const FREEZE_EARN_INTERVAL = 10;
+const MAX_EARNED_FREEZES = 3;
+
+const CLOSE_STREAKS_PAGE_SIZE = 500;
 
 export class StreakService {
 	constructor(private db: DatabaseService) {}
 
-	async updateStreak(email: string): Promise<void> {
+	async updateStreak(email: string, postId: string): Promise<void> {
 		const user = await this.db.getOrCreateUser(email);
-		const today = new Date();
 
-		// Skip streak updates on Sundays since there are no editions
-		if (today.getDay() === 0) {
-			return;
-		}
+		// The read counts for the edition of its post, or for the reader's day when the post has none
+		const readDay = (await this.db.getPostEditionDay(postId)) ?? toLocalDay(new Date(), this.db.getUserTimezone(user));
 
-		const lastRead = await this.db.getLastReadDate(user.id);
-		if (!lastRead) {
-			// First read ever, start streak at 1
-			await this.db.updateUserStreak(user.id, Math.max(1, user.highest_streak || 0));
+		// Skip streak updates on days without an edition
+		if (!(await this.db.isEditionDay(readDay))) {
 			return;
 		}
 
-		const lastReadDate = new Date(lastRead);
-		const yesterday = new Date(today);
-		yesterday.setDate(today.getDate() - 1);
+		const previousReadDay = await this.db.getPreviousReadDay(user.id, readDay);
+		let streak = user.current_streak;
 
-		// If yesterday was Sunday, check Friday
-		if (yesterday.getDay() === 0) {
-			yesterday.setDate(yesterday.getDate() - 2);
+		// Missing exactly one edition spends a freeze instead of resetting the streak
+		if (previousReadDay) {
+			const missed = await this.db.getEditionDatesBetween(previousReadDay, readDay);
+			if (missed.length === 1 && (await this.db.useStreakFreeze(user.id, missed[0]))) {
+				streak = (await this.db.recalculateStreak(user.id)).current_streak;
+			}
 		}
 
-		// Format dates to YYYY-MM-DD for comparison
-		const lastReadFormatted = lastReadDate.toISOString().split('T')[0];
-		const yesterdayFormatted = yesterday.toISOString().split('T')[0];
-		const todayFormatted = today.toISOString().split('T')[0];
+		if (streak > 0 && streak % FREEZE_EARN_INTERVAL === 0) {
+			// Keyed by day so several reads on the same day only earn one freeze
+			await this.db.addStreakFreezes(user.id, 'earned', 1, { reference: `streak:${readDay}`, cap: MAX_EARNED_FREEZES });
+		}
+	}
 
-		let newStreak = 1;
+	/**
+	 * Stored streaks only change when a reader reads, so the nightly job recalculates the running
+	 * ones with the streak engine, which resets those that ended because the reader missed an
+	 * edition. A reader with a freeze who missed just one edition keeps their streak (see
+	 * computeStreaks). Readers are processed a page at a time, with a few queries per page.
+	 * Returns how many streaks were reset.
+	 */
+	async closeBrokenStreaks(now = new Date()): Promise<number> {
+		let reset = 0;
+		let lastUserId = 0;
+		let userIds: number[];
 
-		if (lastReadFormatted === yesterdayFormatted) {
-			// Read yesterday, increment streak
-			newStreak = user.current_streak + 1;
-		} else if (lastReadFormatted === todayFormatted) {
-			// Already read today, maintain current streak
-			return;
-		}
-		// Otherwise, it's a gap in reading, start new streak at 1
+		do {
+			const page = await this.db
+				.prepare('SELECT id FROM users WHERE current_streak > 0 AND id > ? ORDER BY id LIMIT ?')
+				.bind(lastUserId, CLOSE_STREAKS_PAGE_SIZE)
+				.all<{ id: number }>();
+			userIds = (page?.results || []).map((row) => row.id);
+
+			for (const streaks of (await this.db.recalculateStreaks(userIds, now)).values()) {
+				if (streaks.current_streak === 0) {
+					reset++;
+				}
+			}
+			lastUserId = userIds[userIds.length - 1];
+		} while (userIds.length === CLOSE_STREAKS_PAGE_SIZE);
 
-		// Update highest streak if the new streak is higher
-		const newHighestStreak = Math.max(newStreak, user.highest_streak || 0);
-		await this.db.updateUserStreak(user.id, newStreak);
+		return reset;
 	}
 }
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, resolveTimezone, startOfPeriod, toLocalDateTime, toLocalDay } from './timezone.service';
+
+describe('timezone helpers', () => {
+	it('should format the local wall-clock time of an instant', () => {
+		const instant = new Date('2024-03-20T02:30:00Z');
+
+		expect(toLocalDateTime(instant, 'America/Sao_Paulo')).toBe('2024-03-19 23:30:00');
+		expect(toLocalDay(instant, 'Europe/Lisbon')).toBe('2024-03-20');
+	});
+
+	it('should follow DST changes', () => {
+		// New York is UTC-5 in winter and UTC-4 in summer
+		expect(toLocalDateTime(new Date('2024-01-15T04:30:00Z'), 'America/New_York')).toBe('2024-01-14 23:30:00');
+		expect(toLocalDateTime(new Date('2024-07-15T04:30:00Z'), 'America/New_York')).toBe('2024-07-15 00:30:00');
+	});
+
+	it('should prefer the user timezone and ignore invalid names', () => {
+		expect(resolveTimezone('Europe/Lisbon', 'America/Sao_Paulo')).toBe('Europe/Lisbon');
+		expect(resolveTimezone(null, 'Asia/Tokyo')).toBe('Asia/Tokyo');
+		expect(resolveTimezone('Not/AZone', 'Also/Invalid')).toBe('America/Sao_Paulo');
+	});
+
+	it('should add days across month and year ends', () => {
+		expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+		expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+		expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+	});
+
+	it('should find the Monday of the week and the first of the month', () => {
+		expect(startOfPeriod('week', '2024-03-17')).toBe('2024-03-11');
+		expect(startOfPeriod('week', '2024-03-01')).toBe('2024-02-26');
+		expect(startOfPeriod('month', '2024-03-17')).toBe('2024-03-01');
+	});
+});
@@ -0,0 +1,75 @@
+export const FALLBACK_TIMEZONE = 'America/Sao_Paulo';
+
+export function isValidTimezone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Picks the timezone used to decide which day a read belongs to: the reader's own
+ * timezone when set, otherwise the publication default from DEFAULT_TIMEZONE.
+ */
+export function resolveTimezone(userTimezone?: string | null, defaultTimezone?: string): string {
+	if (userTimezone && isValidTimezone(userTimezone)) {
+		return userTimezone;
+	}
+	if (defaultTimezone && isValidTimezone(defaultTimezone)) {
+		return defaultTimezone;
+	}
+	return FALLBACK_TIMEZONE;
+}
+
+/**
+ * Formats an instant as a wall-clock `YYYY-MM-DD HH:MM:SS` string in the given timezone.
+ * This is the "read date" stored in reading_stats, so `date(read_date)` is the reader's local day.
+ */
+export function toLocalDateTime(instant: Date, timeZone: string): string {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+			hourCycle: 'h23',
+		})
+			.formatToParts(instant)
+			.map((part) => [part.type, part.value])
+	);
+
+	return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/**
+ * The calendar day (`YYYY-MM-DD`) of an instant in the given timezone.
+ */
+export function toLocalDay(instant: Date, timeZone: string): string {
+	return toLocalDateTime(instant, timeZone).slice(0, 10);
+}
+
+/**
+ * The calendar day `days` after `day` (both `YYYY-MM-DD`); negative values go back.
+ */
+export function addDays(day: string, days: number): string {
+	const date = new Date(`${day}T00:00:00Z`);
+	date.setUTCDate(date.getUTCDate() + days);
+	return date.toISOString().split('T')[0];
+}
+
+/**
+ * First day (`YYYY-MM-DD`) of the week (starting on Monday) or month that contains `day`.
+ */
+export function startOfPeriod(period: 'week' | 'month', day: string): string {
+	if (period === 'month') {
+		return `${day.slice(0, 7)}-01`;
+	}
+
+	const daysSinceMonday = (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+	return addDays(day, -daysSinceMonday);
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { TrackingService, trackingPixelResponse } from './tracking.service';
+import { PostService } from './post.service';
+import { Env, NotFoundError, Post } from '../types';
+
+const posts: Record<string, Partial<Post>> = {
+	post_123: { post_id: 'post_123', web_url: 'https://newsletter.beehiiv.com/p/post-123' },
+};
+
+function createService(mode?: string) {
+	const postService = {
+		getPost: async (postId: string) => {
+			if (!posts[postId]) {
+				throw new NotFoundError('Post not found');
+			}
+			return posts[postId];
+		},
+	} as unknown as PostService;
+
+	return new TrackingService(
+		{
+			TRACKING_LINK_SECRET: 'tracking-secret',
+			TRACKING_SIGNATURE_MODE: mode,
+			REDIRECT_ALLOWED_HOSTS: 'beehiiv.com, thenews.example',
+			REDIRECT_FALLBACK_URL: 'https://thenews.example',
+		} as Env,
+		postService
+	);
+}
+
+describe('TrackingService', () => {
+	it('should build links that verify', async () => {
+		const service = createService();
+		const { url } = await service.buildLink('https://api.test', 'Reader@Example.com', 'post_123', { params: { utm_source: 'email' } });
+		const params = new URL(url).searchParams;
+
+		expect(params.get('email')).toBe('reader@example.com');
+		expect(params.get('utm_source')).toBe('email');
+		expect(await service.verify('reader@example.com', 'post_123', params.get('exp'), params.get('sig'))).toBe('valid');
+	});
+
+	it('should reject links for another email or post', async () => {
+		const service = createService();
+		const params = new URL((await service.buildLink('https://api.test', 'reader@example.com', 'post_123')).url).searchParams;
+
+		expect(await service.verify('someone@example.com', 'post_123', params.get('exp'), params.get('sig'))).toBe('invalid');
+		expect(await service.verify('reader@example.com', 'post_456', params.get('exp'), params.get('sig'))).toBe('invalid');
+	});
+
+	it('should sign the referral code into the link', async () => {
+		const service = createService();
+		const { url } = await service.buildLink('https://api.test', 'reader@example.com', 'post_123', { referralCode: 'K7QM2XPA' });
+		const params = new URL(url).searchParams;
+
+		expect(params.get('ref')).toBe('K7QM2XPA');
+		expect(await service.verify('reader@example.com', 'post_123', params.get('exp'), params.get('sig'), 'K7QM2XPA')).toBe('valid');
+		expect(await service.verify('reader@example.com', 'post_123', params.get('exp'), params.get('sig'), 'OTHERCODE')).toBe('invalid');
+		expect(await service.verify('reader@example.com', 'post_123', params.get('exp'), params.get('sig'))).toBe('invalid');
+	});
+
+	it('should only credit referral codes covered by the signature, even when reads are not enforced', async () => {
+		const service = createService('off');
+		const unsigned = new URL((await service.buildLink('https://api.test', 'reader@example.com', 'post_123')).url).searchParams;
+		const signed = new URL(
+			(await service.buildLink('https://api.test', 'reader@example.com', 'post_123', { referralCode: 'K7QM2XPA' })).url
+		).searchParams;
+		const referralCode = (params: URLSearchParams | null) =>
+			service.getSignedReferralCode('reader@example.com', 'post_123', params?.get('exp') ?? null, params?.get('sig') ?? null, 'K7QM2XPA');
+
+		expect(await service.isReadAllowed('reader@example.com', 'post_123', unsigned.get('exp'), unsigned.get('sig'), 'K7QM2XPA')).toBe(true);
+		expect(await referralCode(unsigned)).toBeUndefined();
+		expect(await referralCode(null)).toBeUndefined();
+		expect(await referralCode(signed)).toBe('K7QM2XPA');
+	});
+
+	it('should reject an extended expiry', async () => {
+		const service = createService();
+		const params = new URL((await service.buildLink('https://api.test', 'reader@example.com', 'post_123')).url).searchParams;
+
+		expect(await service.verify('reader@example.com', 'post_123', String(Number(params.get('exp')) + 1), params.get('sig'))).toBe('invalid');
+	});
+
+	it('should report expired and missing signatures', async () => {
+		const service = createService();
+		const expired = Math.floor(Date.now() / 1000) - 60;
+		const signature = await service.sign('reader@example.com', 'post_123', expired);
+
+		expect(await service.verify('reader@example.com', 'post_123', String(expired), signature)).toBe('expired');
+		expect(await service.verify('reader@example.com', 'post_123', null, null)).toBe('missing');
+	});
+
+	it('should only let unsigned reads through in grace mode', async () => {
+		expect(await createService().isReadAllowed('reader@example.com', 'post_123', null, null)).toBe(false);
+		expect(await createService('grace').isReadAllowed('reader@example.com', 'post_123', null, null)).toBe(true);
+		expect(await createService('off').isReadAllowed('reader@example.com', 'post_123', null, null)).toBe(true);
+	});
+
+	it('should only redirect to https URLs on allowed hosts', () => {
+		const service = createService();
+
+		expect(service.isAllowedRedirect('https://thenews.example/edicao/123')).toBe(true);
+		expect(service.isAllowedRedirect('https://newsletter.beehiiv.com/p/post')).toBe(true);
+		expect(service.isAllowedRedirect('http://thenews.example/edicao/123')).toBe(false);
+		expect(service.isAllowedRedirect('https://evilbeehiiv.com')).toBe(false);
+		expect(service.isAllowedRedirect('https://thenews.example.evil.com')).toBe(false);
+		expect(service.isAllowedRedirect('not a url')).toBe(false);
+	});
+
+	it('should fall back when the redirect target is not allowed', async () => {
+		const service = createService();
+
+		expect(await service.resolveRedirectUrl(undefined, 'https://thenews.example/edicao/123')).toBe('https://thenews.example/edicao/123');
+		expect(await service.resolveRedirectUrl(undefined, 'https://evil.com')).toBe('https://thenews.example');
+	});
+
+	it("should redirect to the post's web URL when there is no allowed target", async () => {
+		const service = createService();
+
+		expect(await service.resolveRedirectUrl('post_123', null)).toBe('https://newsletter.beehiiv.com/p/post-123');
+		expect(await service.resolveRedirectUrl('post_456', 'https://evil.com')).toBe('https://thenews.example');
+	});
+});
+
+describe('trackingPixelResponse', () => {
+	it('should return an uncacheable GIF', async () => {
+		const response = trackingPixelResponse({ 'Access-Control-Allow-Origin': '*' });
+
+		expect(response.headers.get('Content-Type')).toBe('image/gif');
+		expect(response.headers.get('Cache-Control')).toContain('no-store');
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		expect(new Uint8Array(await response.arrayBuffer()).slice(0, 6)).toEqual(new TextEncoder().encode('GIF89a'));
+	});
+});
@@ -0,0 +1,227 @@
+import { PostService } from './post.service';
+import { Env, ValidationError } from '../types';
+
+export type TrackingSignatureMode = 'enforce' | 'grace' | 'off';
+
+export type TrackingSignatureStatus = 'valid' | 'missing' | 'invalid' | 'expired';
+
+// Newsletters are often opened weeks later, so links stay valid for a while by default
+const DEFAULT_LINK_TTL_DAYS = 90;
+const MAX_LINK_TTL_DAYS = 365;
+
+// 1x1 transparent GIF served by the read endpoint in pixel mode
+const TRANSPARENT_GIF = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), (char) => char.charCodeAt(0));
+
+function toBase64Url(bytes: ArrayBuffer): string {
+	return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+	try {
+		const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+		return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The open pixel. Never cached, so every open reaches the worker.
+ */
+export function trackingPixelResponse(headers: Record<string, string> = {}): Response {
+	return new Response(TRANSPARENT_GIF, {
+		headers: {
+			...headers,
+			'Content-Type': 'image/gif',
+			'Cache-Control': 'no-store, no-cache, must-revalidate, private, max-age=0',
+			Pragma: 'no-cache',
+			Expires: '0',
+		},
+	});
+}
+
+/**
+ * Signs tracking links (`GET /?email=...&id=...`) so reads can't be recorded for arbitrary emails.
+ * The signature covers the email, post id, expiry and referral code (`ref`); UTM parameters are not signed.
+ */
+export class TrackingService {
+	constructor(private env: Env, private postService: PostService) {}
+
+	get mode(): TrackingSignatureMode {
+		const mode = this.env.TRACKING_SIGNATURE_MODE;
+		return mode === 'grace' || mode === 'off' ? mode : 'enforce';
+	}
+
+	private async getKey(): Promise<CryptoKey> {
+		if (!this.env.TRACKING_LINK_SECRET) {
+			throw new Error('TRACKING_LINK_SECRET is not configured');
+		}
+
+		const secret = new TextEncoder().encode(this.env.TRACKING_LINK_SECRET);
+		return crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+	}
+
+	// Links without a referral code keep the payload they were signed with before codes were covered
+	private payload(email: string, postId: string, expires: number, referralCode?: string | null): Uint8Array {
+		const ref = referralCode ? `\n${referralCode}` : '';
+		return new TextEncoder().encode(`${email.trim().toLowerCase()}\n${postId}\n${expires}${ref}`);
+	}
+
+	async sign(email: string, postId: string, expires: number, referralCode?: string | null): Promise<string> {
+		return toBase64Url(await crypto.subtle.sign('HMAC', await this.getKey(), this.payload(email, postId, expires, referralCode)));
+	}
+
+	async verify(
+		email: string,
+		postId: string,
+		expires: string | null,
+		signature: string | null,
+		referralCode?: string | null
+	): Promise<TrackingSignatureStatus> {
+		if (!expires || !signature) {
+			return 'missing';
+		}
+
+		const expiresAt = Number(expires);
+		const signatureBytes = fromBase64Url(signature);
+		if (!Number.isInteger(expiresAt) || !signatureBytes) {
+			return 'invalid';
+		}
+
+		const payload = this.payload(email, postId, expiresAt, referralCode);
+		const valid = await crypto.subtle.verify('HMAC', await this.getKey(), signatureBytes, payload);
+		if (!valid) {
+			return 'invalid';
+		}
+
+		return expiresAt * 1000 < Date.now() ? 'expired' : 'valid';
+	}
+
+	/**
+	 * Checks the signature of a tracking request. Returns false when the read must be rejected.
+	 * In grace mode bad signatures are only logged, so links sent before the rollout keep working.
+	 */
+	async isReadAllowed(
+		email: string,
+		postId: string,
+		expires: string | null,
+		signature: string | null,
+		referralCode?: string | null
+	): Promise<boolean> {
+		if (this.mode === 'off') {
+			return true;
+		}
+
+		const status = await this.verify(email, postId, expires, signature, referralCode);
+		if (status === 'valid') {
+			return true;
+		}
+
+		if (this.mode === 'grace') {
+			console.warn(`Accepting tracking request with ${status} signature (grace mode) for post ${postId}`);
+			return true;
+		}
+
+		return false;
+	}
+
+	/**
+	 * The referral code of a tracking request, only when the link's signature covers it. Unsigned
+	 * codes are dropped in every mode, so adding `ref` to a link can't mint referred readers.
+	 */
+	async getSignedReferralCode(
+		email: string,
+		postId: string,
+		expires: string | null,
+		signature: string | null,
+		referralCode?: string | null
+	): Promise<string | undefined> {
+		if (!referralCode || !this.env.TRACKING_LINK_SECRET) {
+			return undefined;
+		}
+
+		return (await this.verify(email, postId, expires, signature, referralCode)) === 'valid' ? referralCode : undefined;
+	}
+
+	/**
+	 * Whether `to` may be used as a redirect target: an https URL on an allowed host
+	 * (REDIRECT_ALLOWED_HOSTS, comma-separated) or one of its subdomains.
+	 */
+	isAllowedRedirect(to: string): boolean {
+		let target: URL;
+		try {
+			target = new URL(to);
+		} catch {
+			return false;
+		}
+
+		const allowedHosts = (this.env.REDIRECT_ALLOWED_HOSTS ?? '')
+			.split(',')
+			.map((host) => host.trim().toLowerCase())
+			.filter(Boolean);
+
+		return target.protocol === 'https:' && allowedHosts.some((host) => target.hostname === host || target.hostname.endsWith(`.${host}`));
+	}
+
+	/**
+	 * Where the read endpoint redirects in redirect mode: an allowed `to` parameter, else the
+	 * post's web URL from the post catalog, else REDIRECT_FALLBACK_URL. Beehiiv errors fall
+	 * through to the fallback.
+	 */
+	async resolveRedirectUrl(postId: string | undefined, to: string | null): Promise<string> {
+		if (to && this.isAllowedRedirect(to)) {
+			return to;
+		}
+
+		if (postId) {
+			try {
+				const post = await this.postService.getPost(postId);
+				if (post.web_url) {
+					return post.web_url;
+				}
+			} catch (error) {
+				console.error('Error fetching post URL from Beehiiv:', error);
+			}
+		}
+
+		if (!this.env.REDIRECT_FALLBACK_URL) {
+			throw new Error('REDIRECT_FALLBACK_URL is not configured');
+		}
+		return this.env.REDIRECT_FALLBACK_URL;
+	}
+
+	/**
+	 * Builds a signed tracking URL for one reader.
+	 */
+	async buildLink(
+		baseUrl: string,
+		email: string,
+		postId: string,
+		options: { expiresInDays?: number; referralCode?: string; params?: Record<string, string> } = {}
+	): Promise<{ url: string; expires_at: string }> {
+		const ttlDays = options.expiresInDays ?? DEFAULT_LINK_TTL_DAYS;
+		if (!Number.isInteger(ttlDays) || ttlDays <= 0 || ttlDays > MAX_LINK_TTL_DAYS) {
+			throw new ValidationError(`Link expiry must be between 1 and ${MAX_LINK_TTL_DAYS} days`);
+		}
+
+		const normalizedEmail = email.trim().toLowerCase();
+		const expires = Math.floor(Date.now() / 1000) + ttlDays * 24 * 60 * 60;
+
+		const url = new URL('/', baseUrl);
+		url.searchParams.set('email', normalizedEmail);
+		url.searchParams.set('id', postId);
+		for (const [key, value] of Object.entries(options.params ?? {})) {
+			url.searchParams.set(key, value);
+		}
+		if (options.referralCode) {
+			url.searchParams.set('ref', options.referralCode);
+		}
+		url.searchParams.set('exp', String(expires));
+		url.searchParams.set('sig', await this.sign(normalizedEmail, postId, expires, options.referralCode));
+
+		return { url: url.toString(), expires_at: new Date(expires * 1000).toISOString() };
+	}
+}
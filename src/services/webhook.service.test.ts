@@ -0,0 +1,97 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebhookService } from './webhook.service';
+import { DatabaseService } from './db.service';
+import { migrate } from '../test-helpers';
+import { BeehiivWebhookEvent, Env } from '../types';
+
+const SECRET = 'webhook-secret';
+
+function createService(secret: string | undefined = SECRET) {
+	return new WebhookService(new DatabaseService(env.DB), { BEEHIIV_WEBHOOK_SECRET: secret } as Env);
+}
+
+async function sign(payload: string, secret = SECRET): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('WebhookService signatures', () => {
+	const payload = JSON.stringify({ uid: 'evt_1', event_type: 'subscription.created', data: { email: 'reader@example.com' } });
+
+	it('should accept the HMAC of the raw body, with or without the sha256= prefix', async () => {
+		const service = createService();
+		const signature = await sign(payload);
+
+		expect(await service.verifySignature(payload, signature)).toBe(true);
+		expect(await service.verifySignature(payload, `sha256=${signature}`)).toBe(true);
+	});
+
+	it('should reject a missing signature', async () => {
+		const service = createService();
+
+		expect(await service.verifySignature(payload, null)).toBe(false);
+		expect(await service.verifySignature(payload, '')).toBe(false);
+	});
+
+	it('should reject a signature made with another secret or that is not hex', async () => {
+		const service = createService();
+
+		expect(await service.verifySignature(payload, await sign(payload, 'other-secret'))).toBe(false);
+		expect(await service.verifySignature(payload, 'not-a-signature')).toBe(false);
+	});
+
+	it('should reject a tampered body', async () => {
+		const service = createService();
+		const signature = await sign(payload);
+
+		expect(await service.verifySignature(payload.replace('reader@', 'attacker@'), signature)).toBe(false);
+	});
+
+	it('should refuse to verify without a configured secret', async () => {
+		const signature = await sign(payload);
+
+		await expect(createService('').verifySignature(payload, signature)).rejects.toThrow('BEEHIIV_WEBHOOK_SECRET is not configured');
+	});
+});
+
+describe('WebhookService events on D1', () => {
+	const service = createService();
+
+	const created: BeehiivWebhookEvent = {
+		uid: 'evt_created',
+		event_type: 'subscription.created',
+		data: { id: 'sub_1', email: 'Reader@Example.com', subscription_tier: 'free' },
+	};
+	const deleted: BeehiivWebhookEvent = {
+		uid: 'evt_deleted',
+		event_type: 'subscription.deleted',
+		data: { id: 'sub_1', email: 'reader@example.com' },
+	};
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+	});
+
+	async function getReaders() {
+		return env.DB.prepare('SELECT email, is_active FROM users').all();
+	}
+
+	it('should process an event once and skip replays of its id', async () => {
+		expect(await service.handleEvent(created)).toEqual({ processed: true });
+		expect(await service.handleEvent(created)).toEqual({ processed: false });
+
+		expect((await getReaders()).results).toEqual([{ email: 'reader@example.com', is_active: 1 }]);
+		expect((await env.DB.prepare('SELECT event_id FROM webhook_events').all()).results).toEqual([{ event_id: 'evt_created' }]);
+	});
+
+	it('should not let a replayed event undo a later one', async () => {
+		await service.handleEvent(created);
+		await service.handleEvent(deleted);
+
+		expect(await service.handleEvent(created)).toEqual({ processed: false });
+		expect((await getReaders()).results).toEqual([{ email: 'reader@example.com', is_active: 0 }]);
+	});
+});
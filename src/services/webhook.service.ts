@@ -0,0 +1,99 @@
+import { DatabaseService } from './db.service';
+import { BeehiivWebhookEvent, Env, ValidationError } from '../types';
+
+const SUPPORTED_EVENTS = ['subscription.created', 'subscription.upgraded', 'subscription.deleted'];
+
+function hexToBytes(hex: string): Uint8Array | null {
+	if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+		return null;
+	}
+	return Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+}
+
+export class WebhookService {
+	constructor(private db: DatabaseService, private env: Env) {}
+
+	/**
+	 * Verifies the `X-Beehiiv-Signature` header, a hex HMAC-SHA256 of the raw body
+	 * (optionally prefixed with `sha256=`) keyed by BEEHIIV_WEBHOOK_SECRET.
+	 */
+	async verifySignature(payload: string, signature: string | null): Promise<boolean> {
+		if (!this.env.BEEHIIV_WEBHOOK_SECRET) {
+			throw new Error('BEEHIIV_WEBHOOK_SECRET is not configured');
+		}
+
+		const signatureBytes = hexToBytes((signature ?? '').replace(/^sha256=/, ''));
+		if (!signatureBytes) {
+			return false;
+		}
+
+		const encoder = new TextEncoder();
+		const key = await crypto.subtle.importKey('raw', encoder.encode(this.env.BEEHIIV_WEBHOOK_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, [
+			'verify',
+		]);
+		return crypto.subtle.verify('HMAC', key, signatureBytes, encoder.encode(payload));
+	}
+
+	async handleEvent(event: BeehiivWebhookEvent): Promise<{ processed: boolean }> {
+		const eventId = event.uid;
+		const email = event.data?.email?.trim().toLowerCase();
+
+		if (!eventId || !event.event_type) {
+			throw new ValidationError('Webhook event id and type are required');
+		}
+
+		if (!SUPPORTED_EVENTS.includes(event.event_type)) {
+			throw new ValidationError(`Unsupported webhook event type: "${event.event_type}"`);
+		}
+
+		if (!email) {
+			throw new ValidationError('Webhook event is missing the subscriber email');
+		}
+
+		const alreadyProcessed = await this.db.prepare('SELECT 1 FROM webhook_events WHERE event_id = ?').bind(eventId).first();
+		if (alreadyProcessed) {
+			return { processed: false };
+		}
+
+		// Only a subscription that creates the reader can credit a referrer
+		const referralCode = event.event_type === 'subscription.created' ? event.data.referral_code?.trim() : undefined;
+		const isNewUser = referralCode ? !(await this.db.prepare('SELECT 1 FROM users WHERE email = ?').bind(email).first()) : false;
+
+		const timestamp = new Date().toISOString();
+		const userStatement =
+			event.event_type === 'subscription.deleted'
+				? this.db
+						.prepare('UPDATE users SET is_active = 0, unsubscribed_at = ?, updated_at = ? WHERE email = ?')
+						.bind(timestamp, timestamp, email)
+				: this.db
+						.prepare(
+							`
+							INSERT INTO users (email, beehiiv_subscriber_id, subscription_tier, is_active, current_streak, highest_streak, password_hash)
+							VALUES (?, ?, ?, 1, 0, 0, NULL)
+							ON CONFLICT(email) DO UPDATE SET
+								beehiiv_subscriber_id = COALESCE(excluded.beehiiv_subscriber_id, users.beehiiv_subscriber_id),
+								subscription_tier = COALESCE(excluded.subscription_tier, users.subscription_tier),
+								is_active = 1,
+								unsubscribed_at = NULL,
+								updated_at = ?
+							`
+						)
+						.bind(email, event.data.id ?? null, event.data.subscription_tier ?? null, timestamp);
+
+		// Both statements run in one batch (a single transaction in D1), so a failed
+		// update never marks the event as processed
+		await this.db.batch([
+			userStatement,
+			this.db.prepare('INSERT INTO webhook_events (event_id, event_type, email) VALUES (?, ?, ?)').bind(eventId, event.event_type, email),
+		]);
+
+		if (referralCode && isNewUser) {
+			const user = await this.db.prepare('SELECT id FROM users WHERE email = ?').bind(email).first<{ id: number }>();
+			if (user) {
+				await this.db.recordReferral(user.id, referralCode);
+			}
+		}
+
+		return { processed: true };
+	}
+}
@@ -0,0 +1,103 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatabaseService } from './db.service';
+import { getLevel, XpService } from './xp.service';
+import { migrate } from '../test-helpers';
+
+describe('getLevel', () => {
+	it('should start readers at level 1', () => {
+		expect(getLevel(0)).toEqual({ level: 1, xp_to_next_level: 100 });
+	});
+
+	it('should level up exactly at each threshold', () => {
+		expect(getLevel(99)).toEqual({ level: 1, xp_to_next_level: 1 });
+		expect(getLevel(100)).toEqual({ level: 2, xp_to_next_level: 150 });
+		expect(getLevel(640)).toEqual({ level: 4, xp_to_next_level: 360 });
+	});
+
+	it('should report no remaining XP at the max level', () => {
+		expect(getLevel(12000)).toEqual({ level: 10, xp_to_next_level: 0 });
+		expect(getLevel(50000)).toEqual({ level: 10, xp_to_next_level: 0 });
+	});
+});
+
+describe('XpService on D1', () => {
+	const xp = new XpService(new DatabaseService(env.DB, 'America/Sao_Paulo'));
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		await env.DB.batch([
+			env.DB.prepare(
+				`
+				INSERT INTO users (id, email, current_streak, is_admin) VALUES
+					(1, 'reader@example.com', 3, 0),
+					(2, 'veteran@example.com', 50, 0),
+					(3, 'admin@thenews.example', 0, 1)
+				`
+			),
+			env.DB.prepare("INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_1'), ('2024-03-19', 'post_2')"),
+			// 23:30 UTC is still the 18th in São Paulo; 02:00 UTC on the 19th is the evening before
+			env.DB.prepare(
+				`
+				INSERT INTO reading_stats (user_id, post_id, read_date, created_at, utm_channel) VALUES
+					(1, 'post_1', '2024-03-18 23:30:00', '2024-03-18 23:30:00', 'Email'),
+					(2, 'post_2', '2024-03-19 02:00:00', '2024-03-19 02:00:00', NULL)
+				`
+			),
+		]);
+	});
+
+	async function getLedger(userId: number) {
+		const result = await env.DB.prepare('SELECT amount, reason FROM xp_ledger WHERE user_id = ? ORDER BY id').bind(userId).all();
+		return result.results;
+	}
+
+	it('should award base XP plus the streak, publication day and channel bonuses once', async () => {
+		expect(await xp.awardForRead(1, 'post_1')).toBe(23);
+		expect(await xp.awardForRead(1, 'post_1')).toBe(0);
+
+		expect(await getLedger(1)).toEqual([
+			{ amount: 10, reason: 'read' },
+			{ amount: 3, reason: 'streak_bonus' },
+			{ amount: 5, reason: 'publication_day_bonus' },
+			{ amount: 5, reason: 'channel_bonus' },
+		]);
+	});
+
+	it('should cap the streak bonus and skip the publication day bonus on another day', async () => {
+		expect(await xp.awardForRead(2, 'post_2')).toBe(30);
+		expect(await getLedger(2)).toEqual([
+			{ amount: 10, reason: 'read' },
+			{ amount: 20, reason: 'streak_bonus' },
+		]);
+	});
+
+	it('should not award XP for a read that was not recorded', async () => {
+		expect(await xp.awardForRead(1, 'post_2')).toBe(0);
+	});
+
+	it('should validate manual adjustments', async () => {
+		await expect(xp.adjust(1, 0, 'Nothing', 3)).rejects.toThrow('Amount must be a non-zero integer');
+		await expect(xp.adjust(1, 1.5, 'Half', 3)).rejects.toThrow('Amount must be a non-zero integer');
+		await expect(xp.adjust(1, 10, ' ', 3)).rejects.toThrow('A reason is required to adjust XP');
+		await expect(xp.adjust(99, 10, 'Contest', 3)).rejects.toThrow('User not found');
+
+		const entry = await xp.adjust(1, -5, ' Contest ', 3);
+		expect(entry).toMatchObject({ user_id: 1, amount: -5, reason: 'Contest', source: 'admin', created_by: 3 });
+	});
+
+	it('should reverse an entry once and never reverse a reversal', async () => {
+		const entry = await xp.adjust(1, 40, 'Contest', 3);
+
+		await expect(xp.reverse(entry.id, '', 3)).rejects.toThrow('A reason is required to reverse an XP entry');
+		await expect(xp.reverse(999, 'Mistake', 3)).rejects.toThrow('XP entry not found');
+
+		const reversal = await xp.reverse(entry.id, 'Mistake', 3);
+		expect(reversal).toMatchObject({ user_id: 1, amount: -40, source: 'reversal', reverses_id: entry.id });
+
+		await expect(xp.reverse(entry.id, 'Again', 3)).rejects.toThrow('This XP entry has already been reversed');
+		await expect(xp.reverse(reversal.id, 'Undo', 3)).rejects.toThrow('Reversal entries cannot be reversed');
+
+		expect((await xp.getSummary(1)).xp).toBe(0);
+	});
+});
@@ -0,0 +1,165 @@
+import { DatabaseService } from './db.service';
+import { toLocalDay } from './timezone.service';
+import { ConflictError, NotFoundError, ValidationError, XpLedgerEntry, XpSummary } from '../types';
+
+const BASE_READ_XP = 10;
+// +1 XP per day of streak, capped so long streaks don't dwarf everything else
+const STREAK_BONUS_CAP = 20;
+const PUBLICATION_DAY_BONUS = 5;
+const CHANNEL_BONUSES: Record<string, number> = {
+	email: 5,
+	web: 2,
+};
+
+// Cumulative XP required to reach each level (level 1 starts at 0)
+export const LEVEL_THRESHOLDS = [0, 100, 250, 500, 1000, 2000, 3500, 5500, 8000, 12000];
+
+const RECENT_ENTRIES_LIMIT = 10;
+
+export function getLevel(xp: number): { level: number; xp_to_next_level: number } {
+	let level = 1;
+	while (level < LEVEL_THRESHOLDS.length && xp >= LEVEL_THRESHOLDS[level]) {
+		level++;
+	}
+
+	const nextThreshold = LEVEL_THRESHOLDS[level];
+	return { level, xp_to_next_level: nextThreshold === undefined ? 0 : nextThreshold - xp };
+}
+
+export class XpService {
+	constructor(private db: DatabaseService) {}
+
+	/**
+	 * Awards XP for the user's read of a post. Each read is credited at most once,
+	 * so it is safe to call again when the read was already recorded.
+	 */
+	async awardForRead(userId: number, postId: string): Promise<number> {
+		const read = await this.db
+			.prepare(
+				`
+				SELECT r.id, r.created_at, r.utm_channel, u.current_streak,
+					(SELECT edition_date FROM editions WHERE post_id = r.post_id) as publication_day
+				FROM reading_stats r
+				JOIN users u ON u.id = r.user_id
+				WHERE r.user_id = ? AND r.post_id = ?
+				`
+			)
+			.bind(userId, postId)
+			.first<{ id: number; created_at: string; utm_channel: string | null; current_streak: number; publication_day: string | null }>();
+
+		if (!read) {
+			return 0;
+		}
+
+		const entries: { amount: number; reason: string }[] = [{ amount: BASE_READ_XP, reason: 'read' }];
+
+		const streakBonus = Math.min(read.current_streak || 0, STREAK_BONUS_CAP);
+		if (streakBonus > 0) {
+			entries.push({ amount: streakBonus, reason: 'streak_bonus' });
+		}
+
+		// Edition days are in the publication's timezone, so the read's day must be too (created_at is UTC)
+		const readDay = toLocalDay(new Date(`${read.created_at.replace(' ', 'T')}Z`), this.db.getUserTimezone());
+		if (readDay === read.publication_day) {
+			entries.push({ amount: PUBLICATION_DAY_BONUS, reason: 'publication_day_bonus' });
+		}
+
+		const channelBonus = read.utm_channel ? CHANNEL_BONUSES[read.utm_channel.toLowerCase()] : undefined;
+		if (channelBonus) {
+			entries.push({ amount: channelBonus, reason: 'channel_bonus' });
+		}
+
+		const results = await this.db.batch(
+			entries.map(({ amount, reason }) =>
+				this.db
+					.prepare('INSERT OR IGNORE INTO xp_ledger (user_id, amount, reason, source, reference) VALUES (?, ?, ?, ?, ?)')
+					.bind(userId, amount, reason, 'read', `read:${read.id}:${reason}`)
+			)
+		);
+
+		return entries.filter((_, i) => results[i]?.meta?.changes).reduce((total, { amount }) => total + amount, 0);
+	}
+
+	async adjust(userId: number, amount: number, reason: string, adminId: number): Promise<XpLedgerEntry> {
+		if (!Number.isInteger(amount) || amount === 0) {
+			throw new ValidationError('Amount must be a non-zero integer');
+		}
+
+		if (!reason?.trim()) {
+			throw new ValidationError('A reason is required to adjust XP');
+		}
+
+		const user = await this.db.prepare('SELECT id FROM users WHERE id = ?').bind(userId).first();
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		const entry = await this.db
+			.prepare('INSERT INTO xp_ledger (user_id, amount, reason, source, created_by) VALUES (?, ?, ?, ?, ?) RETURNING *')
+			.bind(userId, amount, reason.trim(), 'admin', adminId)
+			.first<XpLedgerEntry>();
+
+		return entry!;
+	}
+
+	/**
+	 * Cancels a ledger entry by writing an opposite entry that points back to it.
+	 * Entries are never updated or deleted, so the ledger stays auditable.
+	 */
+	async reverse(entryId: number, reason: string, adminId: number): Promise<XpLedgerEntry> {
+		if (!reason?.trim()) {
+			throw new ValidationError('A reason is required to reverse an XP entry');
+		}
+
+		const original = await this.db.prepare('SELECT * FROM xp_ledger WHERE id = ?').bind(entryId).first<XpLedgerEntry>();
+		if (!original) {
+			throw new NotFoundError('XP entry not found');
+		}
+
+		if (original.source === 'reversal') {
+			throw new ValidationError('Reversal entries cannot be reversed');
+		}
+
+		const alreadyReversed = await this.db.prepare('SELECT 1 FROM xp_ledger WHERE reverses_id = ?').bind(entryId).first();
+		if (alreadyReversed) {
+			throw new ConflictError('This XP entry has already been reversed');
+		}
+
+		const entry = await this.db
+			.prepare('INSERT INTO xp_ledger (user_id, amount, reason, source, reverses_id, created_by) VALUES (?, ?, ?, ?, ?, ?) RETURNING *')
+			.bind(original.user_id, -original.amount, reason.trim(), 'reversal', entryId, adminId)
+			.first<XpLedgerEntry>();
+
+		return entry!;
+	}
+
+	async getSummary(userId?: number, email?: string): Promise<XpSummary> {
+		const where = userId ? 'u.id = ?' : 'u.email = ?';
+
+		const total = await this.db
+			.prepare(`SELECT COALESCE(SUM(l.amount), 0) as xp FROM users u LEFT JOIN xp_ledger l ON l.user_id = u.id WHERE ${where}`)
+			.bind(userId || email)
+			.first<{ xp: number }>();
+
+		const recent = await this.db
+			.prepare(
+				`
+				SELECT l.*
+				FROM xp_ledger l
+				JOIN users u ON u.id = l.user_id
+				WHERE ${where}
+				ORDER BY l.created_at DESC, l.id DESC
+				LIMIT ${RECENT_ENTRIES_LIMIT}
+				`
+			)
+			.bind(userId || email)
+			.all<XpLedgerEntry>();
+
+		const xp = Math.max(total?.xp || 0, 0);
+		return {
+			xp,
+			...getLevel(xp),
+			recent_xp: recent?.results || [],
+		};
+	}
+}
@@ -0,0 +1,10 @@
+// Migration files imported as text in tests (Vite's ?raw suffix)
+declare module '*.sql?raw' {
+	const sql: string;
+	export default sql;
+}
+
+// Vite's glob import, used by tests to load every migration file
+interface ImportMeta {
+	glob<T>(pattern: string, options: { query: '?raw'; import: 'default'; eager: true }): Record<string, T>;
+}
@@ -0,0 +1,24 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+import { Migration, MigrationService } from './services/migration.service';
+
+declare module 'cloudflare:test' {
+	interface ProvidedEnv {
+		DB: D1Database;
+	}
+}
+
+/**
+ * Every file in migrations/, in version order, as `wrangler d1 migrations apply` would run them.
+ */
+export const migrations: Migration[] = Object.entries(
+	import.meta.glob<string>('../migrations/*.sql', { query: '?raw', import: 'default', eager: true })
+)
+	.map(([path, sql]) => ({ name: path.split('/').pop()!, sql }))
+	.sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Brings a local test D1 database up to the current schema.
+ */
+export async function migrate(db: D1Database): Promise<string[]> {
+	return new MigrationService(db).migrate(migrations);
+}
@@ -1,6 +1,16 @@
 export interface Env {
 	DB: D1Database;
 	BEEHIIV_API_URL: string;
+	JWT_SECRET: string;
+	BEEHIIV_WEBHOOK_SECRET: string;
+	DEFAULT_TIMEZONE?: string;
+	PASSWORD_HASH_ITERATIONS?: string;
+	REFERRAL_BASE_URL?: string;
+	TRACKING_LINK_SECRET?: string;
+	TRACKING_SIGNATURE_MODE?: string;
+	REDIRECT_ALLOWED_HOSTS?: string;
+	REDIRECT_FALLBACK_URL?: string;
+	POST_CACHE_TTL_SECONDS?: string;
 }
 
 export interface WebhookData {
@@ -10,6 +20,7 @@ export interface WebhookData {
 	utm_medium?: string;
 	utm_campaign?: string;
 	utm_channel?: string;
+	referral_code?: string;
 }
 
 export interface User {
@@ -18,12 +29,47 @@ export interface User {
 	current_streak: number;
 	highest_streak: number;
 	last_read_date: string | null;
+	is_active: boolean;
+	subscription_tier: string | null;
+	streak_freezes: number;
+	timezone: string | null;
+	display_name: string | null;
+	leaderboard_opt_out: boolean;
+	referral_code: string | null;
+	referred_by: number | null;
+}
+
+export interface BeehiivWebhookEvent {
+	uid: string;
+	event_type: 'subscription.created' | 'subscription.upgraded' | 'subscription.deleted';
+	data: {
+		id?: string;
+		email: string;
+		status?: string;
+		subscription_tier?: string;
+		referral_code?: string;
+	};
 }
 
 export interface ReadingHistory {
 	date: string;
 	post_id: string;
-	post_title?: string;
+	post_title: string | null;
+	publish_date: string | null;
+}
+
+export interface ReadingHistoryFilters {
+	// Reads on or after/before these days (YYYY-MM-DD)
+	startDate?: string;
+	endDate?: string;
+	limit?: number;
+	// next_cursor of the previous page
+	cursor?: string | null;
+}
+
+export interface ReadingHistoryPage {
+	entries: ReadingHistory[];
+	next_cursor: string | null;
 }
 
 export interface UserStats {
@@ -34,9 +80,96 @@ export interface UserStats {
 	sources: string[];
 	opening_rate: number;
 	history: ReadingHistory[];
+	badges?: EarnedBadge[];
+	xp?: number;
+	level?: number;
+	xp_to_next_level?: number;
+	recent_xp?: XpLedgerEntry[];
+	streak_freezes?: StreakFreezeSummary;
+	past_streaks?: StreakRun[];
+}
+
+export interface StreakRun {
+	start_date: string;
+	end_date: string;
+	length: number;
+}
+
+export interface StreakResult {
+	current_streak: number;
+	highest_streak: number;
+	past_streaks: StreakRun[];
+}
+
+export interface StreakFreezeEvent {
+	type: 'earned' | 'granted' | 'used';
+	amount: number;
+	edition_date: string | null;
+	note: string | null;
+	created_at: string;
+}
+
+export interface StreakFreezeSummary {
+	available: number;
+	history: StreakFreezeEvent[];
+}
+
+export interface StreakFreezeGrantRequest {
+	userId?: number;
+	email?: string;
+	amount?: number;
+	reason: string;
+}
+
+export interface XpLedgerEntry {
+	id: number;
+	user_id: number;
+	amount: number;
+	reason: string;
+	source: 'read' | 'admin' | 'reversal' | 'referral';
+	reference: string | null;
+	reverses_id: number | null;
+	created_by: number | null;
+	created_at: string;
+}
+
+export interface XpSummary {
+	xp: number;
+	level: number;
+	xp_to_next_level: number;
+	recent_xp: XpLedgerEntry[];
+}
+
+export interface XpAdjustmentRequest {
+	userId?: number;
+	email?: string;
+	amount: number;
+	reason: string;
+}
+
+export interface XpReversalRequest {
+	entryId: number;
+	reason: string;
+}
+
+export interface Badge {
+	id: string;
+	name: string;
+	description: string;
+	rule_type: 'first_read' | 'total_reads' | 'streak' | 'perfect_month';
+	threshold: number | null;
+}
+
+export interface EarnedBadge {
+	id: string;
+	name: string;
+	description: string;
+	awarded_at: string;
 }
 
 export interface PostStats {
+	title: string | null;
+	publish_date: string | null;
 	total_reads: number;
 	unique_readers: number;
 	utm_breakdown: {
@@ -48,23 +181,307 @@ export interface PostStats {
 }
 
 export interface AdminStats {
+	start_date: string;
+	end_date: string;
+	// Active subscribers who had signed up by end_date, including accounts deleted while subscribed
 	total_users: number;
+	// Readers with at least one read in the range
+	active_users: number;
+	total_reads: number;
+	// Average current streak of the active users
 	avg_streak: number;
+	// Average over the edition days in the range of readers of that edition / subscribers that day, in %
 	avg_opening_rate: number;
-	active_users_30d: number;
-	top_readers: {
-		email: string;
-		streak: number;
-		opening_rate: number;
-		last_read: string;
-	}[];
+}
+
+export interface TopReader {
+	email: string;
+	streak: number;
+	// Reads in the range
+	total_reads: number;
+	// Reads in the range / editions of the range since signup, in %
+	opening_rate: number;
+	last_read: string | null;
+}
+
+export type LeaderboardWindow = 'week' | 'month' | 'all';
+
+export type LeaderboardMetric = 'streak' | 'reads' | 'xp';
+
+export interface LeaderboardEntry {
+	rank: number;
+	display_name: string;
+	value: number;
+}
+
+export interface Leaderboard {
+	window: LeaderboardWindow;
+	metric: LeaderboardMetric;
+	period_start: string | null;
+	generated_at: string;
+	entries: LeaderboardEntry[];
+	next_cursor: string | null;
+	me: LeaderboardEntry | null;
+}
+
+export interface LeaderboardSettingsRequest {
+	display_name?: string | null;
+	opt_out?: boolean;
+}
+
+export interface Referral {
+	referred: string; // Masked email of the referred reader
+	status: 'pending' | 'rewarded';
+	reads: number;
+	created_at: string;
+	rewarded_at: string | null;
+}
+
+export interface ReferralSummary {
+	code: string;
+	link: string | null;
+	required_reads: number;
+	reward_xp: number;
+	referrals: Referral[];
+}
+
+export interface TopReferrer {
+	email: string;
+	referrals: number;
+	rewarded: number;
+	pending: number;
+}
+
+export type UtmDimension = 'source' | 'medium' | 'campaign' | 'channel';
+
+export interface AttributionMetrics {
+	reads: number;
+	unique_readers: number;
+	// Readers whose very first read came through this value (first touch)
+	new_readers: number;
+	// Average highest streak of those new readers; null when there are none
+	avg_downstream_streak: number | null;
+}
+
+export interface AttributionRow extends AttributionMetrics {
+	// UTM value; null groups reads without one
+	value: string | null;
+	// Split by the pivot dimension, when one was requested
+	breakdown?: AttributionRow[];
+}
+
+export interface AttributionReport {
+	start_date: string;
+	end_date: string;
+	post_ids: string[] | null;
+	pivot: UtmDimension | null;
+	totals: AttributionMetrics;
+	dimensions: Partial<Record<UtmDimension, AttributionRow[]>>;
+}
+
+export type CohortBy = 'signup' | 'first_read';
+
+export type CohortPeriod = 'week' | 'month';
+
+export interface CohortRetention {
+	week: number;
+	// Members whose week has fully elapsed; later weeks of recent cohorts have fewer
+	eligible: number;
+	retained: number;
+	// Percentage of eligible members who read at least once that week; null when none are eligible yet
+	rate: number | null;
+}
+
+export interface Cohort {
+	// First day of the signup / first-read week (Monday) or month
+	cohort: string;
+	users: number;
+	retention: CohortRetention[];
+}
+
+export interface CohortReport {
+	cohort_by: CohortBy;
+	period: CohortPeriod;
+	utm_source: string | null;
+	// Column headers of the heatmap; each cohort's retention follows this order
+	weeks: number[];
+	cohorts: Cohort[];
+}
+
+export type AdminAuditAction = 'set_admin' | 'set_active' | 'password_reset' | 'adjust_streak';
+
+export interface AdminAuditEntry {
+	id: number;
+	admin_id: number;
+	admin_email: string | null;
+	user_id: number;
+	action: AdminAuditAction;
+	reason: string | null;
+	details: Record<string, unknown> | null;
+	created_at: string;
+}
+
+export interface AdminUserSummary {
+	id: number;
+	email: string;
+	is_admin: boolean;
+	is_active: boolean;
+	deactivated_at: string | null;
+	current_streak: number;
+	highest_streak: number;
+	last_read_date: string | null;
+	total_reads: number;
+	created_at: string;
+}
+
+export interface AdminUserList {
+	users: AdminUserSummary[];
+	page: number;
+	limit: number;
+	total: number;
+}
+
+export interface ReadEvent {
+	post_id: string;
+	read_date: string;
+	utm_source: string | null;
+	utm_medium: string | null;
+	utm_campaign: string | null;
+	utm_channel: string | null;
+}
+
+export interface AdminUserProfile extends AdminUserSummary {
+	has_password: boolean;
+	timezone: string | null;
+	subscription_tier: string | null;
+	unsubscribed_at: string | null;
+	display_name: string | null;
+	streak_freezes: number;
+	referred_by: number | null;
+	reads: ReadEvent[];
+	streak_timeline: StreakRun[];
+	audit_log: AdminAuditEntry[];
+}
+
+export interface AdminPasswordReset extends AdminUserProfile {
+	// Single-use token for POST /api/auth/reset-password; the admin passes it on to the user
+	reset_token: string;
+	reset_token_expires_at: string;
+}
+
+export interface AccountProfile {
+	id: number;
+	email: string;
+	is_admin: boolean;
+	created_at: string;
+	updated_at: string;
+	timezone: string | null;
+	subscription_tier: string | null;
+	is_active: boolean;
+	unsubscribed_at: string | null;
+	display_name: string | null;
+	leaderboard_opt_out: boolean;
+	referral_code: string | null;
+	referred_by: number | null;
+}
+
+export interface AccountExport {
+	exported_at: string;
+	profile: AccountProfile;
+	reads: ReadEvent[];
+	streaks: StreakResult & { timeline: StreakRun[] };
+	badges: EarnedBadge[];
+	xp: { total: number; ledger: XpLedgerEntry[] };
+	streak_freezes: StreakFreezeSummary;
+	referrals: Referral[];
+}
+
+export interface DeleteAccountRequest {
+	password: string;
+}
+
+export interface AdminRoleRequest {
+	is_admin: boolean;
+	reason?: string;
+}
+
+export interface AccountStatusRequest {
+	active: boolean;
+	reason?: string;
+}
+
+export interface PasswordResetRequest {
+	reason?: string;
+}
+
+export interface StreakAdjustmentRequest {
+	current_streak?: number;
+	highest_streak?: number;
+	reason: string;
+}
+
+export interface TrackingLinkRequest {
+	post_id: string;
+	emails: string[];
+	expires_in_days?: number;
+	// Signed into the links, so it is credited when the link's read creates the reader
+	referral_code?: string;
+	utm_source?: string;
+	utm_medium?: string;
+	utm_campaign?: string;
+	utm_channel?: string;
+}
+
+export interface TrackingLink {
+	email: string;
+	url: string;
+	expires_at: string;
+}
+
+// Post metadata as returned by Beehiiv
+export interface PostMetadata {
+	post_id: string;
+	title: string | null;
+	slug: string | null;
+	web_url: string | null;
+	publish_date: string | null;
+}
+
+// A post in the local catalog; fetched_at is null until Beehiiv has answered for it
+export interface Post extends PostMetadata {
+	fetched_at: string | null;
+}
+
+export interface PostSyncRequest {
+	post_ids?: string[];
+}
+
+export interface PostSyncResult {
+	synced: string[];
+	// Beehiiv doesn't know these posts
+	not_found: string[];
+	// Beehiiv couldn't be reached for these posts
+	failed: string[];
+}
+
+export interface Edition {
+	edition_date: string;
+	post_id: string | null;
+	note: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface EditionRequest {
+	edition_date: string;
+	post_id?: string;
+	note?: string;
 }
 
 export interface AdminStatsFilters {
-	startDate: string; // Data inicial do período (obrigatório)
-	endDate: string; // Data final do período (obrigatório)
-	newsletterDate?: string; // Data específica da newsletter (opcional)
-	minStreak?: number; // Streak mínimo para filtrar usuários (opcional)
+	startDate?: string; // Data inicial do período (padrão: início do period)
+	endDate?: string; // Data final do período (padrão: hoje)
+	period?: '7d' | '30d' | '90d'; // Usado quando startDate/endDate não são informados (padrão: 7d)
 }
 
 export interface AuthUser {
@@ -91,8 +508,32 @@ export interface ChangePasswordRequest {
 	newPassword: string;
 }
 
-export interface AuthResponse {
+export interface TimezoneRequest {
+	timezone: string | null;
+}
+
+export interface RefreshRequest {
+	refresh_token: string;
+}
+
+export interface ResetPasswordRequest {
+	reset_token: string;
+	password: string;
+}
+
+export interface TokenPayload {
+	userId: number;
+	email: string;
+}
+
+export interface AuthTokens {
 	token: string;
+	token_expires_at: string;
+	refresh_token: string;
+	refresh_token_expires_at: string;
+}
+
+export interface AuthResponse extends AuthTokens {
 	user: {
 		id: number;
 		email: string;
@@ -100,24 +541,134 @@ export interface AuthResponse {
 	};
 }
 
-export class ValidationError extends Error {
-	constructor(message: string) {
+export type ErrorCode =
+	| 'validation_error'
+	| 'unauthenticated'
+	| 'forbidden'
+	| 'not_found'
+	| 'method_not_allowed'
+	| 'conflict'
+	| 'rate_limited'
+	| 'upstream_error'
+	| 'service_unavailable'
+	| 'internal_error';
+
+/**
+ * Errors whose message is safe to show to clients. Anything else thrown by a handler
+ * becomes a generic 500, so internal details never reach the response.
+ */
+export class ApiError extends Error {
+	constructor(message: string, public status: number, public code: ErrorCode, public headers: Record<string, string> = {}) {
 		super(message);
+		this.name = 'ApiError';
+	}
+}
+
+export class ValidationError extends ApiError {
+	constructor(message: string) {
+		super(message, 400, 'validation_error');
 		this.name = 'ValidationError';
 	}
 }
 
+export class UnauthenticatedError extends ApiError {
+	constructor(message: string) {
+		super(message, 401, 'unauthenticated');
+		this.name = 'UnauthenticatedError';
+	}
+}
+
+export class ForbiddenError extends ApiError {
+	constructor(message: string) {
+		super(message, 403, 'forbidden');
+		this.name = 'ForbiddenError';
+	}
+}
+
+export class NotFoundError extends ApiError {
+	constructor(message: string) {
+		super(message, 404, 'not_found');
+		this.name = 'NotFoundError';
+	}
+}
+
+export class MethodNotAllowedError extends ApiError {
+	constructor(allowedMethods: string[]) {
+		super('Method not allowed', 405, 'method_not_allowed', { Allow: allowedMethods.join(', ') });
+		this.name = 'MethodNotAllowedError';
+	}
+}
+
+export class ConflictError extends ApiError {
+	constructor(message: string) {
+		super(message, 409, 'conflict');
+		this.name = 'ConflictError';
+	}
+}
+
+export class RateLimitedError extends ApiError {
+	constructor(message: string, retryAfterSeconds?: number) {
+		super(message, 429, 'rate_limited', retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : {});
+		this.name = 'RateLimitedError';
+	}
+}
+
+/**
+ * A dependency such as the Beehiiv API failed or returned something unusable.
+ */
+export class UpstreamError extends ApiError {
+	constructor(message: string) {
+		super(message, 502, 'upstream_error');
+		this.name = 'UpstreamError';
+	}
+}
+
+export class ServiceUnavailableError extends ApiError {
+	constructor(message: string) {
+		super(message, 503, 'service_unavailable', { 'Retry-After': '60' });
+		this.name = 'ServiceUnavailableError';
+	}
+}
+
+export interface ErrorResponse {
+	error: string;
+	code: ErrorCode;
+	request_id: string;
+}
+
+// Publication-wide numbers for one day, written by the nightly job once the day is over
+export interface DailySnapshot {
+	date: string;
+	is_edition_day: boolean;
+	// Active subscribers who had signed up by that day, including accounts deleted while subscribed
+	total_users: number;
+	// Subscribers who read on that day
+	active_readers: number;
+	// active_readers / total_users in %, only on edition days
+	opening_rate: number | null;
+	avg_streak: number;
+	// Subscribers per current streak bucket, e.g. { '0': 120, '1-6': 40, '7-29': 12, '30-99': 3, '100+': 0 }
+	streak_distribution: Record<string, number>;
+	// Streaks the nightly job reset because the reader missed an edition
+	streaks_reset: number;
+}
+
 export interface HistoricalStats {
-	daily_stats: Array<{
-		date: string;
-		avg_streak: number;
-		opening_rate: number;
-	}>;
+	start_date: string;
+	end_date: string;
+	// One snapshot per edition day in the range; days before the nightly job ran have none
+	daily_stats: DailySnapshot[];
 }
 
 /**
  * API Endpoints:
  *
+ * Errors:
+ * - Every error returns ErrorResponse { error, code, request_id } with the matching status:
+ *   validation_error 400, unauthenticated 401, forbidden 403, not_found 404, method_not_allowed 405,
+ *   conflict 409, rate_limited 429, upstream_error 502, service_unavailable 503 (database not migrated yet),
+ *   internal_error 500 (message never exposes internals)
+ *
  * Authentication:
  * POST /api/auth/register
  * - Registers a new user
@@ -129,14 +680,90 @@ export interface HistoricalStats {
  * - Body: { email: string, password: string }
  * - Returns: AuthResponse
  *
+ * POST /api/auth/refresh
+ * - Exchanges a refresh token for a new access/refresh token pair (the old refresh token is revoked)
+ * - Body: { refresh_token: string }
+ * - Returns: AuthResponse
+ *
+ * POST /api/auth/reset-password
+ * - Sets a new password with the reset token from a forced password reset (single use, valid 24 hours)
+ * - Body: { reset_token: string, password: string }
+ * - Returns: AuthResponse
+ *
  * POST /api/auth/change-password
  * - Changes user password
  * - Body: { email: string, currentPassword: string, newPassword: string }
  * - Returns: { success: true }
  *
+ * Webhooks:
+ * POST /api/webhooks/beehiiv
+ * - Receives Beehiiv subscription events (created, upgraded, deleted)
+ * - Headers: X-Beehiiv-Signature (hex HMAC-SHA256 of the raw body)
+ * - Creates/updates the subscriber, or marks them inactive on unsubscribe
+ * - Returns: { success: true, duplicate: boolean }
+ *
+ * PUT /api/me/timezone
+ * - Sets the authenticated user's IANA timezone (null falls back to DEFAULT_TIMEZONE)
+ * - Body: { timezone: string | null }
+ * - Returns: { timezone: string }
+ *
+ * GET /api/me/export
+ * - Exports all data stored about the authenticated user (profile, reads, streaks, badges, XP, freezes, referrals)
+ * - Returns: AccountExport
+ *
+ * DELETE /api/me
+ * - Deletes the authenticated user's account: personal data is erased, reads are kept anonymised for aggregates
+ * - Body: { password: string }
+ * - Returns: { success: true }
+ *
+ * PUT /api/me/leaderboard
+ * - Sets the authenticated user's public display name and/or leaderboard opt-out
+ * - Body: { display_name?: string | null, opt_out?: boolean }
+ * - Returns: { display_name: string, opt_out: boolean }
+ *
+ * Referrals:
+ * GET /api/referrals
+ * - Gets the authenticated user's referral code, link and referred readers
+ * - A referral is rewarded (REFERRAL_REWARD_XP to the referrer) after the referred reader reads REFERRAL_REQUIRED_READS editions
+ * - Returns: ReferralSummary
+ *
+ * GET /api/stats/admin/cohorts?cohort_by=<signup|first_read>&period=<week|month>&utm_source=<source>
+ * - Retention heatmap: share of each signup / first-read cohort still reading in weeks 1, 2, 4, 8 and 12 (admin only)
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD, filter the cohort day), format=csv|ndjson
+ * - Returns: CohortReport
+ *
+ * GET /api/stats/admin/attribution?post_ids=<id1,id2>&dimension=<source|medium|campaign|channel>&pivot=<dimension>
+ * - Reads, unique readers, new readers (first touch) and average downstream streak per UTM value (admin only)
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD, default last 30 days), format=csv|ndjson
+ * - Returns: AttributionReport
+ *
+ * GET /api/stats/admin/top-referrers
+ * - Gets the top 10 referrers (admin only)
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format)
+ * - Returns: TopReferrer[]
+ *
+ * Leaderboard:
+ * GET /api/leaderboard?window=<week|month|all>&metric=<streak|reads|xp>&limit=<n>&cursor=<cursor>
+ * - Public ranking with pseudonymous display names; opted-out readers are left out
+ * - Cached per window and metric for a few minutes
+ * - With a Bearer token, `me` holds the caller's own rank even outside the returned page
+ * - Returns: Leaderboard
+ *
  * User Statistics:
- * GET /api/stats?userId=<id>&email=<email>
- * - Gets user statistics (requires either userId or email)
+ * GET /api/me (requires authentication)
+ * - Gets the profile of the authenticated user
+ * - Returns: AccountProfile
+ *
+ * GET /api/me/stats (requires authentication)
+ * - Gets the statistics of the authenticated user, like /api/stats without the history
+ *
+ * GET /api/me/history?startDate=<date>&endDate=<date>&limit=<n>&cursor=<cursor> (requires authentication)
+ * - Gets the reads of the authenticated user, newest first (limit defaults to 50, max 200)
+ * - Returns: ReadingHistoryPage
+ *
+ * GET /api/stats?email=<email>&id=<post_id>&exp=<unix_seconds>&sig=<signature>
+ * - Gets a user's statistics, for admins (Bearer token) or with a valid signed tracking link for that email
+ * - Accepts the history filters of /api/me/history
  * - Returns: UserStats {
  *     current_streak: number,
  *     highest_streak: number,
@@ -144,40 +771,149 @@ export interface HistoricalStats {
  *     last_read_date: string | null,
  *     sources: string[],
  *     opening_rate: number,
- *     history: ReadingHistory[]
+ *     history: ReadingHistory[],
+ *     history_next_cursor: string | null,
+ *     badges: EarnedBadge[],
+ *     xp: number,
+ *     level: number,
+ *     xp_to_next_level: number,
+ *     recent_xp: XpLedgerEntry[],
+ *     streak_freezes: { available: number, history: StreakFreezeEvent[] },
+ *     past_streaks: StreakRun[]
  *   }
  *
+ * Badges:
+ * GET /api/badges
+ * - Lists the badge catalog
+ * - Returns: Badge[]
+ *
+ * POST /api/admin/badges/backfill
+ * - Re-evaluates badge rules for every reader from reading_stats (admin only, idempotent)
+ * - Returns: { users: number, awarded: number }
+ *
+ * XP:
+ * POST /api/admin/xp
+ * - Grants (positive amount) or deducts (negative amount) XP manually (admin only)
+ * - Body: { userId?: number, email?: string, amount: number, reason: string }
+ * - Returns: XpLedgerEntry
+ *
+ * POST /api/admin/xp/reverse
+ * - Cancels a ledger entry by writing an opposite entry (admin only)
+ * - Body: { entryId: number, reason: string }
+ * - Returns: XpLedgerEntry
+ *
+ * POST /api/admin/streaks/recalculate
+ * - Recomputes and stores current/highest streaks for every reader (admin only)
+ * - Returns: { users: number }
+ *
+ * POST /api/admin/aggregates/rebuild
+ * - Recomputes the read counters behind the admin dashboard from reading_stats (admin only)
+ * - Returns: { user_days: number, post_days: number }
+ *
+ * Edition Calendar (admin only):
+ * GET /api/admin/editions?startDate=<date>&endDate=<date>
+ * - Lists publication dates; streaks and opening rates only count these days
+ * - Returns: Edition[]
+ *
+ * POST /api/admin/editions
+ * - Adds an edition date, or updates it if it already exists
+ * - Body: { edition_date: string, post_id?: string, note?: string }
+ * - Returns: Edition
+ *
+ * PUT /api/admin/editions/<date>
+ * - Updates an edition date
+ * - Body: { post_id?: string, note?: string }
+ * - Returns: Edition
+ *
+ * DELETE /api/admin/editions/<date>
+ * - Removes an edition date (e.g. a holiday)
+ * - Returns: { success: true }
+ *
+ * Post Catalog:
+ * GET /api/posts?id=<post_id>
+ * - Post metadata from the local catalog, refreshed from Beehiiv after POST_CACHE_TTL_SECONDS
+ * - Returns: Post
+ *
+ * POST /api/admin/posts/sync
+ * - Refreshes posts from Beehiiv (admin only); without post_ids, unfetched and least recently fetched posts first
+ * - Body: { post_ids?: string[] } (at most 40)
+ * - Returns: PostSyncResult { synced: string[], not_found: string[], failed: string[] }
+ *
+ * Streak Freezes:
+ * POST /api/admin/streak-freezes
+ * - Grants streak freezes to a user (admin only)
+ * - Body: { userId?: number, email?: string, amount?: number, reason: string }
+ * - Returns: StreakFreezeSummary
+ *
+ * User Management (admin only, every change is written to admin_audit_log):
+ * GET /api/admin/users?search=<text>&page=<n>&limit=<n>&sort=<column>&order=<asc|desc>
+ * - Lists users with pagination and sorting
+ * - Returns: AdminUserList
+ *
+ * GET /api/admin/users/<id>
+ * - Gets a user's full profile, reads, streak timeline and audit log
+ * - Returns: AdminUserProfile
+ *
+ * PUT /api/admin/users/<id>/admin
+ * - Promotes or demotes a user
+ * - Body: { is_admin: boolean, reason?: string }
+ * - Returns: AdminUserProfile
+ *
+ * PUT /api/admin/users/<id>/status
+ * - Deactivates (blocks login, ends sessions) or reactivates an account
+ * - Body: { active: boolean, reason?: string }
+ * - Returns: AdminUserProfile
+ *
+ * POST /api/admin/users/<id>/password-reset
+ * - Clears the password, ends all sessions and issues a single-use reset token for the user
+ * - Body: { reason?: string }
+ * - Returns: AdminPasswordReset
+ *
+ * PUT /api/admin/users/<id>/streak
+ * - Manually sets current and/or highest streak
+ * - Body: { current_streak?: number, highest_streak?: number, reason: string }
+ * - Returns: StreakResult
+ *
+ * POST /api/admin/tracking-links
+ * - Generates signed tracking links for newsletter templates (admin only)
+ * - Body: TrackingLinkRequest
+ * - Returns: TrackingLink[]
+ *
+ * Exports:
+ * GET /api/admin/export/reads?startDate=<date>&endDate=<date>&format=<csv|ndjson>
+ * - Streams every read in the range with the reader's email as a file download (admin only)
+ * - Returns: CSV (default) or NDJSON
+ *
+ * The admin dashboard and post statistics endpoints below also accept format=csv|ndjson
+ * to download the report as a file instead of JSON.
+ *
  * Admin Dashboard:
  * GET /api/stats/admin
- * - Gets basic admin dashboard statistics
- * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format)
- * - Returns: {
- *     total_users: number,
- *     avg_streak: number,
- *     avg_opening_rate: number,
- *     active_users: number
- *   }
+ * - Gets basic admin dashboard statistics, read from the per-reader and per-day read counters
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format), period (7d, 30d or 90d)
+ * - Returns: AdminStats
  *
  * GET /api/stats/admin/top-readers
- * - Gets top 10 readers sorted by opening rate and streak
- * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format)
- * - Returns: Array<{
- *     email: string,
- *     streak: number,
- *     opening_rate: number,
- *     last_read: string
- *   }>
+ * - Gets top 10 readers of the range sorted by opening rate and streak
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format), period (7d, 30d or 90d)
+ * - Returns: TopReader[]
  *
  * Newsletter Tracking:
- * GET /?email=<email>&id=<post_id>
+ * GET /?email=<email>&id=<post_id>&exp=<unix_seconds>&sig=<signature>
  * - Records a newsletter read event
+ * - exp/sig are required when TRACKING_SIGNATURE_MODE is "enforce" (401 otherwise); "grace" only logs bad signatures
  * - Optional UTM Parameters: utm_source, utm_medium, utm_campaign, utm_channel
+ * - Optional ref: referral code, recorded when this read creates the user
+ * - Optional mode: "json" (default), "pixel" (1x1 GIF, never cached) or "redirect" (302 to an allowed `to`,
+ *   the post's catalog URL or REDIRECT_FALLBACK_URL); pixel and redirect never fail because of the read
  * - Returns: { success: true }
  *
  * Post Statistics:
  * GET /api/stats/post/<post_id>
  * - Gets statistics for a specific post
  * - Returns: PostStats {
+ *     title: string | null,
+ *     publish_date: string | null,
  *     total_reads: number,
  *     unique_readers: number,
  *     utm_breakdown: {
@@ -189,13 +925,11 @@ export interface HistoricalStats {
  *   }
  *
  * GET /api/stats/admin/historical
- * - Gets historical statistics for admin dashboard
- * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format)
+ * - Gets historical statistics for admin dashboard, from the nightly daily snapshots (edition days only)
+ * - Optional Query Parameters: startDate, endDate (YYYY-MM-DD format), period (7d, 30d or 90d; default 7d)
  * - Returns: HistoricalStats {
- *     daily_stats: Array<{
- *       date: string,        // YYYY-MM-DD format
- *       avg_streak: number,  // Average streak for that day
- *       opening_rate: number // Percentage of users who read that day
- *     }>
+ *     start_date: string,
+ *     end_date: string,
+ *     daily_stats: DailySnapshot[]
  *   }
  */
@@ -1,57 +1,107 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
 import worker from './worker';
+import { AuthService } from './services/auth.service';
+import { DatabaseService } from './services/db.service';
+import { TrackingService } from './services/tracking.service';
+import { PostService } from './services/post.service';
+import { migrate } from './test-helpers';
 import { Env } from './types';
 
 describe('Reading Stats API', () => {
-	let env: Env;
-	let ctx: ExecutionContext;
-
-	beforeEach(() => {
-		const mockDb = {
-			prepare: vi.fn(() => ({
-				bind: vi.fn(() => ({
-					run: vi.fn().mockResolvedValue({ meta: { last_row_id: 1 } }),
-					all: vi.fn().mockResolvedValue({ results: [] }),
-					first: vi.fn().mockResolvedValue(null),
-				})),
-			})),
-		};
-
-		env = {
-			DB: mockDb as unknown as D1Database,
-			BEEHIIV_API_URL: 'https://api.test',
-		};
-		ctx = {} as ExecutionContext;
+	const workerEnv = {
+		DB: env.DB,
+		BEEHIIV_API_URL: 'https://api.test',
+		JWT_SECRET: 'test-secret',
+		BEEHIIV_WEBHOOK_SECRET: 'webhook-secret',
+		TRACKING_LINK_SECRET: 'tracking-secret',
+	} as Env;
+	const ctx = {} as ExecutionContext;
+
+	beforeEach(async () => {
+		await migrate(env.DB);
+		// The post is already in the catalog, so recording a read doesn't call Beehiiv
+		await env.DB.batch([
+			env.DB.prepare("INSERT INTO posts (post_id, web_url) VALUES ('post_123', 'https://newsletter.beehiiv.com/p/post-123')"),
+			env.DB.prepare("INSERT INTO editions (edition_date, post_id) VALUES ('2024-03-18', 'post_123')"),
+		]);
 	});
 
-	it('should handle webhook read events', async () => {
-		const request = new Request('http://localhost/?email=test@example.com&id=post_123&utm_source=tiktok', {
-			method: 'GET',
-		});
+	it('should record a read from a signed tracking link', async () => {
+		const expires = Math.floor(Date.now() / 1000) + 60 * 60;
+		const signature = await new TrackingService(workerEnv, {} as PostService).sign('test@example.com', 'post_123', expires);
+		const request = new Request(
+			`http://localhost/?email=Test@example.com&id=post_123&utm_source=tiktok&exp=${expires}&sig=${encodeURIComponent(signature)}`
+		);
 
-		const response = await worker.fetch(request, env, ctx);
+		const response = await worker.fetch(request, workerEnv, ctx);
 		expect(response.status).toBe(200);
+
+		const reads = await env.DB
+			.prepare('SELECT u.email, r.post_id, r.utm_source FROM reading_stats r JOIN users u ON u.id = r.user_id')
+			.all();
+		expect(reads.results).toEqual([{ email: 'test@example.com', post_id: 'post_123', utm_source: 'tiktok' }]);
+	});
+
+	it('should refuse to record a read from an unsigned link', async () => {
+		const request = new Request('http://localhost/?email=test@example.com&id=post_123&utm_source=tiktok');
+
+		const response = await worker.fetch(request, workerEnv, ctx);
+		expect(response.status).toBe(401);
 	});
 
-	it('should handle user stats request', async () => {
-		const request = new Request('http://localhost/api/stats?userId=1', {
-			method: 'GET',
+	describe('user stats', () => {
+		const authService = new AuthService(new DatabaseService(env.DB), workerEnv);
+
+		beforeEach(async () => {
+			await env.DB.batch([
+				env.DB.prepare("INSERT INTO users (id, email, is_admin) VALUES (1, 'test@example.com', 0), (2, 'admin@example.com', 1)"),
+				env.DB.prepare("INSERT INTO reading_stats (user_id, post_id, read_date) VALUES (1, 'post_123', '2024-03-18 12:00:00')"),
+			]);
 		});
 
-		const response = await worker.fetch(request, env, ctx);
-		expect(response.status).toBe(200);
+		async function signedStatsUrl(email: string) {
+			const expires = Math.floor(Date.now() / 1000) + 60 * 60;
+			const signature = await new TrackingService(workerEnv, {} as PostService).sign(email, 'post_123', expires);
+			return `http://localhost/api/stats?email=test@example.com&id=post_123&exp=${expires}&sig=${encodeURIComponent(signature)}`;
+		}
+
+		async function fetchStats(url: string, token?: string) {
+			const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+			return worker.fetch(new Request(url, { headers }), workerEnv, ctx);
+		}
+
+		it('should refuse requests without a signed link or a token', async () => {
+			expect((await fetchStats('http://localhost/api/stats?email=test@example.com')).status).toBe(401);
+		});
+
+		it("should refuse a link signed for another reader's email", async () => {
+			expect((await fetchStats(await signedStatsUrl('other@example.com'))).status).toBe(401);
+		});
+
+		it('should refuse readers who are not admins', async () => {
+			const { token } = await authService.issueTokens(1, 'test@example.com');
+
+			expect((await fetchStats('http://localhost/api/stats?email=test@example.com', token)).status).toBe(403);
+		});
+
+		it('should answer with a link signed for the email or an admin token', async () => {
+			const signed = await fetchStats(await signedStatsUrl('test@example.com'));
+			expect(signed.status).toBe(200);
+			expect(await signed.json()).toMatchObject({ total_reads: 1, history: [{ post_id: 'post_123' }] });
+
+			const { token } = await authService.issueTokens(2, 'admin@example.com');
+			expect((await fetchStats('http://localhost/api/stats?email=test@example.com', token)).status).toBe(200);
+		});
 	});
 
-	it('should handle user creation', async () => {
+	it('should answer 404 for routes that do not exist', async () => {
 		const request = new Request('http://localhost/api/users', {
 			method: 'POST',
 			body: JSON.stringify({ username: 'testuser' }),
 		});
 
-		const response = await worker.fetch(request, env, ctx);
-		expect(response.status).toBe(200);
-
-		const data = (await response.json()) as { userId: number };
-		expect(data.userId).toBe(1);
+		const response = await worker.fetch(request, workerEnv, ctx);
+		expect(response.status).toBe(404);
 	});
 });
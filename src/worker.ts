@@ -1,447 +1,1008 @@
 import { DatabaseService } from './services/db.service';
 import { StreakService } from './services/streak.service';
-import { Env, ValidationError, RegisterRequest, LoginRequest, ChangePasswordRequest, AuthResponse } from './types';
-
-// Utility functions for authentication
-async function hashPassword(password: string): Promise<string> {
-	const encoder = new TextEncoder();
-	const data = encoder.encode(password);
-	const hash = await crypto.subtle.digest('SHA-256', data);
-	return btoa(String.fromCharCode(...new Uint8Array(hash)));
+import { AuthService } from './services/auth.service';
+import { WebhookService } from './services/webhook.service';
+import { BadgeService } from './services/badge.service';
+import { XpService } from './services/xp.service';
+import { LeaderboardService } from './services/leaderboard.service';
+import { ReferralService } from './services/referral.service';
+import { AdminService } from './services/admin.service';
+import { AccountService } from './services/account.service';
+import {
+	ExportService,
+	attributionToRows,
+	cohortsToRows,
+	exportResponse,
+	historicalToRows,
+	parseExportFormat,
+	postStatsToRows,
+} from './services/export.service';
+import { TrackingService, trackingPixelResponse } from './services/tracking.service';
+import { HttpBeehiivClient } from './services/beehiiv.client';
+import { PostService } from './services/post.service';
+import { SnapshotService } from './services/snapshot.service';
+import { MigrationService } from './services/migration.service';
+import { CohortService } from './services/cohort.service';
+import { AttributionService } from './services/attribution.service';
+import { Router, Route } from './router';
+import { authenticate, cors, handleErrors, parseBody, requireSchema } from './middleware';
+import {
+	Env,
+	ValidationError,
+	UnauthenticatedError,
+	ForbiddenError,
+	NotFoundError,
+	ConflictError,
+	RegisterRequest,
+	LoginRequest,
+	ChangePasswordRequest,
+	RefreshRequest,
+	ResetPasswordRequest,
+	AuthResponse,
+	BeehiivWebhookEvent,
+	XpAdjustmentRequest,
+	XpReversalRequest,
+	StreakFreezeGrantRequest,
+	EditionRequest,
+	TimezoneRequest,
+	LeaderboardSettingsRequest,
+	AdminRoleRequest,
+	AccountStatusRequest,
+	PasswordResetRequest,
+	StreakAdjustmentRequest,
+	DeleteAccountRequest,
+	TrackingLinkRequest,
+	TrackingLink,
+	PostSyncRequest,
+	AdminStatsFilters,
+	ReadingHistoryFilters,
+} from './types';
+
+const ALLOWED_ORIGINS = ['https://the-news-gamification-ten.vercel.app', 'http://localhost:5173', 'http://localhost:3000'];
+
+function isValidDate(date: string | null | undefined): date is string {
+	return !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date));
 }
 
-async function generateToken(userId: number, email: string): Promise<string> {
-	// In a real application, you'd want to use a proper JWT library
-	// For now, we'll create a simple encoded token
-	const payload = {
-		userId,
-		email,
-		exp: Date.now() + 24 * 60 * 60 * 1000, // 24 hours
-	};
-	return btoa(JSON.stringify(payload));
+function parseUserId(id: string): number {
+	const userId = Number(id);
+	if (!Number.isInteger(userId) || userId <= 0) {
+		throw new ValidationError('User ID must be a positive integer');
+	}
+	return userId;
 }
 
-async function verifyToken(token: string): Promise<{ userId: number; email: string } | null> {
-	try {
-		const payload = JSON.parse(atob(token));
-		if (payload.exp < Date.now()) {
-			return null;
-		}
-		return { userId: payload.userId, email: payload.email };
-	} catch {
-		return null;
+function parseHistoryFilters(url: URL): ReadingHistoryFilters {
+	const startDate = url.searchParams.get('startDate') ?? undefined;
+	const endDate = url.searchParams.get('endDate') ?? undefined;
+
+	if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+		throw new ValidationError('startDate and endDate must be in YYYY-MM-DD format');
 	}
+
+	return { startDate, endDate, limit: Number(url.searchParams.get('limit')) || undefined, cursor: url.searchParams.get('cursor') };
 }
 
-export default {
-	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		const allowedOrigins = ['https://the-news-gamification-ten.vercel.app', 'http://localhost:5173', 'http://localhost:3000'];
-		const origin = request.headers.get('Origin') || '';
-
-		// CORS headers to be applied to all responses
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': allowedOrigins.includes(origin) ? origin : allowedOrigins[0],
-			'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-			'Access-Control-Allow-Credentials': 'true',
-		};
-
-		// Handle CORS preflight requests
-		if (request.method === 'OPTIONS') {
-			return new Response(null, {
-				headers: {
-					...corsHeaders,
-					'Access-Control-Max-Age': '86400',
-				},
-			});
-		}
-
-		const db = new DatabaseService(env.DB);
-		const streakService = new StreakService(db);
-		const url = new URL(request.url);
-
-		try {
-			let responseData;
-			let status = 200;
-
-			switch (true) {
-				case request.method === 'GET' && url.pathname === '/': {
-					const email = url.searchParams.get('email') ?? undefined;
-					const postId = url.searchParams.get('id') ?? undefined;
-					const utmSource = url.searchParams.get('utm_source') ?? undefined;
-					const utmMedium = url.searchParams.get('utm_medium') ?? undefined;
-					const utmCampaign = url.searchParams.get('utm_campaign') ?? undefined;
-					const utmChannel = url.searchParams.get('utm_channel') ?? undefined;
-
-					if (!email || !postId) {
-						throw new ValidationError('Both email and newsletter ID are required to record a read');
-					}
+function createRouter(env: Env): Router {
+	const db = new DatabaseService(env.DB, env.DEFAULT_TIMEZONE);
+	const streakService = new StreakService(db);
+	const authService = new AuthService(db, env);
+	const webhookService = new WebhookService(db, env);
+	const badgeService = new BadgeService(db);
+	const xpService = new XpService(db);
+	const leaderboardService = new LeaderboardService(db);
+	const referralService = new ReferralService(db, env);
+	const adminService = new AdminService(db, authService);
+	const accountService = new AccountService(db, authService, badgeService, referralService);
+	const exportService = new ExportService(db);
+	const postService = new PostService(db, new HttpBeehiivClient(env.BEEHIIV_API_URL), env);
+	const trackingService = new TrackingService(env, postService);
+	const migrationService = new MigrationService(env.DB);
+	const cohortService = new CohortService(db);
+	const attributionService = new AttributionService(db);
+	const snapshotService = new SnapshotService(db, streakService);
+
+	// What the stats page shows about a reader, apart from the reading history
+	const getReaderStats = async (userId?: number, email?: string) => {
+		const stats = await db.getUserStats(userId, email);
+		const badges = await badgeService.getUserBadges(userId, email);
+		const xp = await xpService.getSummary(userId, email);
+		const streakFreezes = await db.getStreakFreezes(userId, email);
+		return { ...stats, badges, ...xp, streak_freezes: streakFreezes };
+	};
+
+	const routes: Route[] = [
+		{
+			method: 'GET',
+			path: '/',
+			handler: async ({ url }) => {
+				// Emails are stored lowercase, as the signature and the Beehiiv webhook use them
+				const email = url.searchParams.get('email')?.trim().toLowerCase() || undefined;
+				const postId = url.searchParams.get('id') ?? undefined;
+				const utmSource = url.searchParams.get('utm_source') ?? undefined;
+				const utmMedium = url.searchParams.get('utm_medium') ?? undefined;
+				const utmCampaign = url.searchParams.get('utm_campaign') ?? undefined;
+				const utmChannel = url.searchParams.get('utm_channel') ?? undefined;
+				const referralCode = url.searchParams.get('ref') ?? undefined;
+				const mode = url.searchParams.get('mode') ?? 'json';
+
+				if (mode !== 'json' && mode !== 'pixel' && mode !== 'redirect') {
+					throw new ValidationError(`Invalid mode: "${mode}". Use one of: json, pixel, redirect`);
+				}
 
+				const expires = url.searchParams.get('exp');
+				const signature = url.searchParams.get('sig');
+
+				const recordNewsletterRead = async (email: string, postId: string) => {
+					// The first read of a post adds it to the post catalog, which registers its edition
+					// before the read is recorded so the streak already counts it
+					await postService.ensurePost(postId);
+
+					const user = await db.recordRead({
+						email,
+						post_id: postId,
+						utm_source: utmSource,
+						utm_medium: utmMedium,
+						utm_campaign: utmCampaign,
+						utm_channel: utmChannel,
+						// Only credited when the link's signature covers it, even in grace and off modes
+						referral_code: await trackingService.getSignedReferralCode(email, postId, expires, signature, referralCode),
+					});
+
+					// Update streak after recording read
+					await streakService.updateStreak(email, postId);
+
+					// Award XP and any badges unlocked by this read
+					await xpService.awardForRead(user.id, postId);
+					await badgeService.evaluate(user.id);
+
+					// Reward whoever referred this reader once they have read enough editions
+					await referralService.checkReward(user.id);
+				};
+
+				// The image or the redirect is always served, even when the read can't be recorded
+				if (mode !== 'json') {
 					try {
-						await db.recordRead({
-							email,
-							post_id: postId,
-							utm_source: utmSource,
-							utm_medium: utmMedium,
-							utm_campaign: utmCampaign,
-							utm_channel: utmChannel,
-						});
-
-						// Update streak after recording read
-						await streakService.updateStreak(email);
-						responseData = { success: true };
-					} catch (error) {
-						console.error('Error recording read:', error);
-						if (error instanceof ValidationError) {
-							throw error;
+						if (!email || !postId) {
+							throw new ValidationError('Both email and newsletter ID are required to record a read');
 						}
-						throw new Error('Failed to record newsletter read. Please try again later.');
+						if (await trackingService.isReadAllowed(email, postId, expires, signature, referralCode)) {
+							await recordNewsletterRead(email, postId);
+						} else {
+							console.warn(`Rejected tracking ${mode} with an invalid or expired signature for post ${postId}`);
+						}
+					} catch (error) {
+						console.error(`Error recording read (${mode} mode):`, error);
+					}
+
+					if (mode === 'pixel') {
+						return trackingPixelResponse();
 					}
-					break;
+					return Response.redirect(await trackingService.resolveRedirectUrl(postId, url.searchParams.get('to')), 302);
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/stats': {
-					const email = url.searchParams.get('email') ?? undefined;
+				if (!email || !postId) {
+					throw new ValidationError('Both email and newsletter ID are required to record a read');
+				}
 
-					if (!email) {
-						throw new ValidationError('Email is required to fetch user statistics');
-					}
+				// Only signed links can record reads, so nobody can forge reads for someone else's email
+				const allowed = await trackingService.isReadAllowed(email, postId, expires, signature, referralCode);
+				if (!allowed) {
+					throw new UnauthenticatedError('Invalid or expired tracking link');
+				}
+
+				await recordNewsletterRead(email, postId);
+				return { success: true };
+			},
+		},
 
-					const stats = await db.getUserStats(undefined, email);
-					const history = await db.getUserReadingHistory(undefined, email);
-					responseData = { ...stats, history };
-					break;
+		{
+			method: 'POST',
+			path: '/api/webhooks/beehiiv',
+			handler: async ({ request }) => {
+				const payload = await request.text();
+
+				const validSignature = await webhookService.verifySignature(payload, request.headers.get('X-Beehiiv-Signature'));
+				if (!validSignature) {
+					throw new UnauthenticatedError('Invalid webhook signature');
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/stats/admin': {
-					const startDate = url.searchParams.get('startDate') ?? undefined;
-					const endDate = url.searchParams.get('endDate') ?? undefined;
+				let event: BeehiivWebhookEvent;
+				try {
+					event = JSON.parse(payload);
+				} catch {
+					throw new ValidationError('Webhook payload must be valid JSON');
+				}
 
-					// Verificar autenticação e permissão de admin
-					const authHeader = request.headers.get('Authorization');
-					if (!authHeader?.startsWith('Bearer ')) {
-						throw new ValidationError('Authentication token is required for admin access');
-					}
+				const { processed } = await webhookService.handleEvent(event);
+				return { success: true, duplicate: !processed };
+			},
+		},
 
-					const token = authHeader.slice(7);
-					const userData = await verifyToken(token);
-					if (!userData) {
-						throw new ValidationError('Invalid or expired authentication token');
-					}
+		{
+			method: 'PUT',
+			path: '/api/me/timezone',
+			role: 'user',
+			body: 'required',
+			purpose: 'to update your timezone',
+			handler: async ({ user, body }) => {
+				const { timezone } = body as TimezoneRequest;
+				await db.updateUserTimezone(user!.userId, timezone?.trim() || null);
+
+				return { timezone: db.getUserTimezone({ timezone: timezone?.trim() || null }) };
+			},
+		},
+
+		{
+			method: 'GET',
+			path: '/api/me/export',
+			role: 'user',
+			purpose: 'to export your data',
+			handler: async ({ user }) => accountService.exportData(user!.userId),
+		},
+
+		{
+			method: 'DELETE',
+			path: '/api/me',
+			role: 'user',
+			body: 'required',
+			purpose: 'to delete your account',
+			handler: async ({ user, body }) => {
+				const { password } = body as DeleteAccountRequest;
+				await accountService.deleteAccount(user!.userId, password);
+
+				return { success: true };
+			},
+		},
+
+		{
+			method: 'PUT',
+			path: '/api/me/leaderboard',
+			role: 'user',
+			body: 'required',
+			purpose: 'to update your leaderboard settings',
+			handler: async ({ user, body }) => leaderboardService.updateSettings(user!.userId, body as LeaderboardSettingsRequest),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/leaderboard',
+			// Authentication is optional; it only adds the caller's own rank
+			optionalAuth: true,
+			handler: async ({ url, user }) => {
+				const window = url.searchParams.get('window') || 'week';
+				const metric = url.searchParams.get('metric') || 'xp';
+				const limit = Number(url.searchParams.get('limit')) || undefined;
+				const cursor = url.searchParams.get('cursor');
+
+				return leaderboardService.getLeaderboard(window, metric, { limit, cursor, userId: user?.userId });
+			},
+		},
 
-					// Verificar se o usuário é admin
-					const user = await db.prepare('SELECT is_admin FROM users WHERE id = ?').bind(userData.userId).first<{ is_admin: boolean }>();
-					if (!user?.is_admin) {
-						throw new ValidationError('Admin privileges are required to access this resource');
+		{
+			method: 'GET',
+			path: '/api/referrals',
+			role: 'user',
+			purpose: 'to view your referrals',
+			handler: async ({ user }) => referralService.getReferrals(user!.userId),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/me',
+			role: 'user',
+			purpose: 'to view your profile',
+			handler: async ({ user }) => accountService.getProfile(user!.userId),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/me/stats',
+			role: 'user',
+			purpose: 'to view your statistics',
+			handler: async ({ user }) => getReaderStats(user!.userId),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/me/history',
+			role: 'user',
+			purpose: 'to view your reading history',
+			handler: async ({ url, user }) => db.getUserReadingHistory(user!.userId, undefined, parseHistoryFilters(url)),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/stats',
+			// Admins authenticate with their token; readers open the signed tracking link of one of their newsletters
+			optionalAuth: true,
+			handler: async ({ url, user }) => {
+				const email = url.searchParams.get('email')?.trim().toLowerCase() || undefined;
+
+				if (!email) {
+					throw new ValidationError('Email is required to fetch user statistics');
+				}
+
+				// Stats are private, so an email alone is not enough to see them
+				const { searchParams } = url;
+				const postId = searchParams.get('id');
+				const signature = postId
+					? await trackingService.verify(email, postId, searchParams.get('exp'), searchParams.get('sig'), searchParams.get('ref'))
+					: 'missing';
+				if (signature !== 'valid') {
+					if (!user) {
+						throw new UnauthenticatedError('A signed link or admin access is required to fetch user statistics');
 					}
+					const caller = await db.prepare('SELECT is_admin FROM users WHERE id = ?').bind(user.userId).first<{ is_admin: boolean }>();
+					if (!caller?.is_admin) {
+						throw new ForbiddenError("Admin privileges are required to fetch another reader's statistics");
+					}
+				}
 
-					responseData = await db.getAdminStats({ startDate, endDate });
-					break;
+				const stats = await getReaderStats(undefined, email);
+				const history = await db.getUserReadingHistory(undefined, email, parseHistoryFilters(url));
+				return { ...stats, history: history.entries, history_next_cursor: history.next_cursor };
+			},
+		},
+
+		{
+			method: 'GET',
+			path: '/api/badges',
+			handler: async () => badgeService.getCatalog(),
+		},
+
+		{
+			method: 'POST',
+			path: '/api/admin/badges/backfill',
+			role: 'admin',
+			handler: async () => badgeService.backfill(),
+		},
+
+		{
+			method: 'POST',
+			path: '/api/admin/xp',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to adjust XP',
+			handler: async ({ user, body }) => {
+				const { userId, email, amount, reason } = body as XpAdjustmentRequest;
+
+				let targetId = userId;
+				if (!targetId && email) {
+					const target = await db
+						.prepare('SELECT id FROM users WHERE email = ?')
+						.bind(email.trim().toLowerCase())
+						.first<{ id: number }>();
+					targetId = target?.id;
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/stats/admin/top-readers': {
-					const startDate = url.searchParams.get('startDate') ?? undefined;
-					const endDate = url.searchParams.get('endDate') ?? undefined;
+				if (!targetId) {
+					throw new ValidationError('A valid userId or email is required to adjust XP');
+				}
 
-					// Verificar autenticação e permissão de admin
-					const authHeader = request.headers.get('Authorization');
-					if (!authHeader?.startsWith('Bearer ')) {
-						throw new ValidationError('Authentication token is required for admin access');
-					}
+				return xpService.adjust(targetId, amount, reason, user!.userId);
+			},
+		},
 
-					const token = authHeader.slice(7);
-					const userData = await verifyToken(token);
-					if (!userData) {
-						throw new ValidationError('Invalid or expired authentication token');
-					}
+		{
+			method: 'POST',
+			path: '/api/admin/xp/reverse',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to reverse XP',
+			handler: async ({ user, body }) => {
+				const { entryId, reason } = body as XpReversalRequest;
+
+				if (!entryId) {
+					throw new ValidationError('The id of the XP entry to reverse is required');
+				}
 
-					// Verificar se o usuário é admin
-					const user = await db.prepare('SELECT is_admin FROM users WHERE id = ?').bind(userData.userId).first<{ is_admin: boolean }>();
-					if (!user?.is_admin) {
-						throw new ValidationError('Admin privileges are required to access this resource');
-					}
+				return xpService.reverse(entryId, reason, user!.userId);
+			},
+		},
 
-					responseData = await db.getTopReaders({ startDate, endDate });
-					break;
+		{
+			method: 'POST',
+			path: '/api/admin/streak-freezes',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to grant streak freezes',
+			handler: async ({ user, body }) => {
+				const { userId, email, amount = 1, reason } = body as StreakFreezeGrantRequest;
+
+				if (!Number.isInteger(amount) || amount <= 0) {
+					throw new ValidationError('Amount must be a positive integer');
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/stats/admin/historical': {
-					const startDate = url.searchParams.get('startDate') ?? undefined;
-					const endDate = url.searchParams.get('endDate') ?? undefined;
-					const period = url.searchParams.get('period') as '7d' | '30d' | '90d' | undefined;
+				if (!reason?.trim()) {
+					throw new ValidationError('A reason is required to grant streak freezes');
+				}
 
-					// Verificar autenticação e permissão de admin
-					const authHeader = request.headers.get('Authorization');
-					if (!authHeader?.startsWith('Bearer ')) {
-						throw new ValidationError('Authentication token is required for admin access');
-					}
+				const target = await db
+					.prepare(`SELECT id FROM users WHERE ${userId ? 'id = ?' : 'email = ?'}`)
+					.bind(userId || email?.trim().toLowerCase() || null)
+					.first<{ id: number }>();
 
-					const token = authHeader.slice(7);
-					const userData = await verifyToken(token);
-					if (!userData) {
-						throw new ValidationError('Invalid or expired authentication token');
-					}
+				if (!target) {
+					throw new ValidationError('A valid userId or email is required to grant streak freezes');
+				}
 
-					// Verificar se o usuário é admin
-					const user = await db.prepare('SELECT is_admin FROM users WHERE id = ?').bind(userData.userId).first<{ is_admin: boolean }>();
-					if (!user?.is_admin) {
-						throw new ValidationError('Admin privileges are required to access this resource');
-					}
+				await db.addStreakFreezes(target.id, 'granted', amount, { note: reason.trim(), createdBy: user!.userId });
+				return db.getStreakFreezes(target.id);
+			},
+		},
+
+		{
+			method: 'POST',
+			path: '/api/admin/streaks/recalculate',
+			role: 'admin',
+			handler: async () => db.recalculateAllStreaks(),
+		},
+
+		{
+			method: 'POST',
+			path: '/api/admin/aggregates/rebuild',
+			role: 'admin',
+			handler: async () => db.rebuildReadAggregates(),
+		},
+
+		{
+			method: 'GET',
+			path: '/api/admin/editions',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+				return db.listEditions(startDate, endDate);
+			},
+		},
 
-					responseData = await db.getHistoricalStats({ startDate, endDate, period });
-					break;
+		{
+			method: 'POST',
+			path: '/api/admin/editions',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to create an edition',
+			handler: async ({ body }) => {
+				const edition = body as EditionRequest;
+				if (!isValidDate(edition.edition_date)) {
+					throw new ValidationError('Edition date must be in YYYY-MM-DD format');
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/posts': {
-					const postId = url.searchParams.get('id');
-					if (!postId) {
-						throw new ValidationError('Newsletter ID is required to fetch post details');
-					}
+				return db.upsertEdition(edition);
+			},
+		},
 
-					const response = await fetch(`${env.BEEHIIV_API_URL}/posts/${postId}`);
-					if (!response.ok) {
-						throw new Error('Failed to fetch newsletter details from Beehiiv. Please try again later.');
-					}
+		{
+			method: 'PUT',
+			path: '/api/admin/editions/:date',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to update an edition',
+			handler: async ({ params, body }) => {
+				if (!isValidDate(params.date)) {
+					throw new ValidationError('Edition date must be in YYYY-MM-DD format');
+				}
 
-					responseData = await response.json();
-					break;
+				const { post_id, note } = body as Omit<EditionRequest, 'edition_date'>;
+				if (!(await db.isEditionDay(params.date))) {
+					throw new NotFoundError('Edition not found');
 				}
 
-				case request.method === 'GET' && url.pathname === '/api/posts/stats': {
-					const postId = url.searchParams.get('id');
-					if (!postId) {
-						throw new ValidationError('Newsletter ID is required to fetch post statistics');
-					}
+				return db.upsertEdition({ edition_date: params.date, post_id, note });
+			},
+		},
 
-					responseData = await db.getPostStats(postId);
-					break;
+		{
+			method: 'DELETE',
+			path: '/api/admin/editions/:date',
+			role: 'admin',
+			handler: async ({ params }) => {
+				if (!isValidDate(params.date)) {
+					throw new ValidationError('Edition date must be in YYYY-MM-DD format');
 				}
 
-				case request.method === 'POST' && url.pathname === '/api/auth/register': {
-					if (!request.body) {
-						throw new ValidationError('Request body is required for registration');
-					}
+				if (!(await db.deleteEdition(params.date))) {
+					throw new NotFoundError('Edition not found');
+				}
 
-					const { email, password }: RegisterRequest = await request.json();
+				return { success: true };
+			},
+		},
 
-					if (!email?.trim() || !password?.trim()) {
-						throw new ValidationError('Both email and password are required for registration');
-					}
+		{
+			method: 'POST',
+			path: '/api/admin/posts/sync',
+			role: 'admin',
+			body: 'optional',
+			handler: async ({ body }) => postService.sync((body as PostSyncRequest).post_ids),
+		},
 
-					// Check if user exists from webhook
-					const existingUser = await db.prepare('SELECT id, password_hash FROM users WHERE email = ?').bind(email).first();
+		{
+			method: 'GET',
+			path: '/api/admin/users',
+			role: 'admin',
+			handler: async ({ url }) =>
+				adminService.listUsers({
+					search: url.searchParams.get('search') ?? undefined,
+					page: Number(url.searchParams.get('page')) || undefined,
+					limit: Number(url.searchParams.get('limit')) || undefined,
+					sort: url.searchParams.get('sort') ?? undefined,
+					order: url.searchParams.get('order') ?? undefined,
+				}),
+		},
 
-					if (!existingUser) {
-						throw new ValidationError('You need to subscribe to the newsletter before registering. Please subscribe first.');
-					}
+		{
+			method: 'GET',
+			path: '/api/admin/users/:id',
+			role: 'admin',
+			handler: async ({ params }) => adminService.getUserProfile(parseUserId(params.id)),
+		},
 
-					// Check if user already has a password (already registered)
-					const typedUser = existingUser as { id: number; password_hash: string | null };
-					if (typedUser.password_hash) {
-						throw new ValidationError('This email is already registered. Please login instead.');
-					}
+		{
+			method: 'PUT',
+			path: '/api/admin/users/:id/admin',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to change admin privileges',
+			handler: async ({ params, user, body }) => {
+				const { is_admin, reason } = body as AdminRoleRequest;
+				return adminService.setAdmin(user!.userId, parseUserId(params.id), is_admin, reason);
+			},
+		},
 
-					const passwordHash = await hashPassword(password);
-					const timestamp = new Date().toISOString();
+		{
+			method: 'PUT',
+			path: '/api/admin/users/:id/status',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to change the account status',
+			handler: async ({ params, user, body }) => {
+				const { active, reason } = body as AccountStatusRequest;
+				return adminService.setActive(user!.userId, parseUserId(params.id), active, reason);
+			},
+		},
 
-					// Update existing user with password
-					await db
-						.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
-						.bind(passwordHash, timestamp, typedUser.id)
-						.run();
+		{
+			method: 'POST',
+			path: '/api/admin/users/:id/password-reset',
+			role: 'admin',
+			body: 'optional',
+			handler: async ({ params, user, body }) => {
+				const { reason } = body as PasswordResetRequest;
+				return adminService.forcePasswordReset(user!.userId, parseUserId(params.id), reason);
+			},
+		},
+
+		{
+			method: 'PUT',
+			path: '/api/admin/users/:id/streak',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to adjust streaks',
+			handler: async ({ params, user, body }) =>
+				adminService.adjustStreak(user!.userId, parseUserId(params.id), body as StreakAdjustmentRequest),
+		},
 
-					const token = await generateToken(typedUser.id, email);
-					responseData = {
-						token,
-						user: {
-							id: typedUser.id,
-							email,
-						},
-					};
-					break;
+		{
+			method: 'GET',
+			path: '/api/stats/admin',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+				const period = (url.searchParams.get('period') ?? undefined) as AdminStatsFilters['period'];
+
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const stats = await db.getAdminStats({ startDate, endDate, period });
+				if (format) {
+					return exportResponse([stats], format, 'admin-stats');
 				}
 
-				case request.method === 'POST' && url.pathname === '/api/auth/login': {
-					if (!request.body) {
-						throw new ValidationError('Request body is required for login');
-					}
+				return stats;
+			},
+		},
 
-					const { email, password }: LoginRequest = await request.json();
+		{
+			method: 'GET',
+			path: '/api/stats/admin/top-readers',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+				const period = (url.searchParams.get('period') ?? undefined) as AdminStatsFilters['period'];
+
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const topReaders = await db.getTopReaders({ startDate, endDate, period });
+				if (format) {
+					return exportResponse(topReaders, format, 'top-readers');
+				}
 
-					if (!email?.trim() || !password?.trim()) {
-						throw new ValidationError('Both email and password are required for login');
-					}
+				return topReaders;
+			},
+		},
 
-					const user = await db.prepare('SELECT id, email, password_hash, is_admin FROM users WHERE email = ?').bind(email).first();
+		{
+			method: 'GET',
+			path: '/api/stats/admin/top-referrers',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
 
-					if (!user) {
-						throw new ValidationError('Invalid email or password');
-					}
+				return referralService.getTopReferrers({ startDate, endDate });
+			},
+		},
 
-					const typedUser = user as { id: number; email: string; password_hash: string; is_admin: boolean };
-					const passwordHash = await hashPassword(password);
-					if (passwordHash !== typedUser.password_hash) {
-						throw new ValidationError('Invalid email or password');
-					}
+		{
+			method: 'GET',
+			path: '/api/stats/admin/cohorts',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+
+				if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+					throw new ValidationError('startDate and endDate must be in YYYY-MM-DD format');
+				}
 
-					const token = await generateToken(typedUser.id, typedUser.email);
-					responseData = {
-						token,
-						user: {
-							id: typedUser.id,
-							email: typedUser.email,
-							is_admin: typedUser.is_admin,
-						},
-					};
-					break;
-				}
-
-				case request.method === 'POST' && url.pathname === '/api/auth/change-password': {
-					const authHeader = request.headers.get('Authorization');
-					if (!authHeader?.startsWith('Bearer ')) {
-						throw new ValidationError('Authentication token is required to change password');
-					}
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const report = await cohortService.getRetention({
+					cohortBy: url.searchParams.get('cohort_by') ?? undefined,
+					period: url.searchParams.get('period') ?? undefined,
+					utmSource: url.searchParams.get('utm_source') ?? undefined,
+					startDate,
+					endDate,
+				});
+				if (format) {
+					return exportResponse(cohortsToRows(report), format, `cohorts-${report.cohort_by}-${report.period}`);
+				}
 
-					const token = authHeader.slice(7);
-					const userData = await verifyToken(token);
-					if (!userData) {
-						throw new ValidationError('Invalid or expired authentication token');
-					}
+				return report;
+			},
+		},
 
-					if (!request.body) {
-						throw new ValidationError('Request body is required to change password');
-					}
+		{
+			method: 'GET',
+			path: '/api/stats/admin/attribution',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+
+				if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+					throw new ValidationError('startDate and endDate must be in YYYY-MM-DD format');
+				}
 
-					const { currentPassword, newPassword }: ChangePasswordRequest = await request.json();
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const report = await attributionService.getReport({
+					startDate,
+					endDate,
+					postIds: url.searchParams.get('post_ids')?.split(',').map((id) => id.trim()).filter(Boolean),
+					dimension: url.searchParams.get('dimension') ?? undefined,
+					pivot: url.searchParams.get('pivot') ?? undefined,
+				});
+				if (format) {
+					return exportResponse(attributionToRows(report), format, `attribution-${report.start_date}-${report.end_date}`);
+				}
 
-					if (!currentPassword?.trim() || !newPassword?.trim()) {
-						throw new ValidationError('Both current password and new password are required');
-					}
+				return report;
+			},
+		},
 
-					const user = await db.prepare('SELECT id, password_hash FROM users WHERE id = ?').bind(userData.userId).first();
+		{
+			method: 'POST',
+			path: '/api/admin/tracking-links',
+			role: 'admin',
+			body: 'required',
+			purpose: 'to generate tracking links',
+			handler: async ({ url, body }) => {
+				const { post_id, emails, expires_in_days, referral_code, ...utm } = body as TrackingLinkRequest;
+
+				if (!post_id?.trim()) {
+					throw new ValidationError('Newsletter ID is required to generate tracking links');
+				}
 
-					if (!user) {
-						throw new ValidationError('User not found');
-					}
+				if (!Array.isArray(emails) || emails.length === 0 || emails.length > 1000 || emails.some((email) => typeof email !== 'string')) {
+					throw new ValidationError('Between 1 and 1000 emails are required to generate tracking links');
+				}
 
-					const typedUser = user as { id: number; password_hash: string };
-					const currentPasswordHash = await hashPassword(currentPassword);
-					if (currentPasswordHash !== typedUser.password_hash) {
-						throw new ValidationError('Current password is incorrect');
+				const params: Record<string, string> = {};
+				for (const key of ['utm_source', 'utm_medium', 'utm_campaign', 'utm_channel'] as const) {
+					if (utm[key]) {
+						params[key] = utm[key]!;
 					}
+				}
+
+				const links: TrackingLink[] = [];
+				for (const email of emails) {
+					const link = await trackingService.buildLink(url.origin, email, post_id.trim(), {
+						expiresInDays: expires_in_days,
+						referralCode: referral_code?.trim() || undefined,
+						params,
+					});
+					links.push({ email: email.trim().toLowerCase(), ...link });
+				}
+
+				return links;
+			},
+		},
+
+		{
+			method: 'GET',
+			path: '/api/admin/export/reads',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate');
+				const endDate = url.searchParams.get('endDate');
+
+				if (!isValidDate(startDate) || !isValidDate(endDate)) {
+					throw new ValidationError('startDate and endDate are required in YYYY-MM-DD format to export reads');
+				}
+
+				const format = parseExportFormat(url.searchParams.get('format') || 'csv') ?? 'csv';
+				return exportService.streamReads(startDate, endDate, format);
+			},
+		},
+
+		{
+			method: 'GET',
+			path: '/api/stats/admin/historical',
+			role: 'admin',
+			handler: async ({ url }) => {
+				const startDate = url.searchParams.get('startDate') ?? undefined;
+				const endDate = url.searchParams.get('endDate') ?? undefined;
+				const period = url.searchParams.get('period') ?? undefined;
+
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const historical = await snapshotService.getHistoricalStats({ startDate, endDate, period });
+				if (format) {
+					return exportResponse(historicalToRows(historical), format, 'historical-stats');
+				}
 
-					const newPasswordHash = await hashPassword(newPassword);
-					const timestamp = new Date().toISOString();
+				return historical;
+			},
+		},
 
+		{
+			method: 'GET',
+			path: '/api/posts',
+			handler: async ({ url }) => {
+				const postId = url.searchParams.get('id');
+				if (!postId) {
+					throw new ValidationError('Newsletter ID is required to fetch post details');
+				}
+
+				return postService.getPost(postId);
+			},
+		},
+
+		{
+			method: 'GET',
+			path: '/api/posts/stats',
+			handler: async ({ url }) => {
+				const postId = url.searchParams.get('id');
+				if (!postId) {
+					throw new ValidationError('Newsletter ID is required to fetch post statistics');
+				}
+
+				const format = parseExportFormat(url.searchParams.get('format'));
+				const postStats = await db.getPostStats(postId);
+				if (format) {
+					return exportResponse(postStatsToRows(postId, postStats), format, `post-stats-${postId}`);
+				}
+
+				return postStats;
+			},
+		},
+
+		{
+			method: 'POST',
+			path: '/api/auth/register',
+			body: 'required',
+			purpose: 'for registration',
+			handler: async ({ body }) => {
+				const { email, password } = body as RegisterRequest;
+
+				if (!email?.trim() || !password?.trim()) {
+					throw new ValidationError('Both email and password are required for registration');
+				}
+
+				// Check if user exists from webhook, which stores emails lowercase
+				const normalizedEmail = email.trim().toLowerCase();
+				const existingUser = await db
+					.prepare('SELECT id, password_hash, is_active FROM users WHERE email = ?')
+					.bind(normalizedEmail)
+					.first();
+
+				if (!existingUser?.is_active) {
+					throw new ForbiddenError('You need to subscribe to the newsletter before registering. Please subscribe first.');
+				}
+
+				// Check if user already has a password (already registered)
+				const typedUser = existingUser as { id: number; password_hash: string | null };
+				if (typedUser.password_hash) {
+					throw new ConflictError('This email is already registered. Please login instead.');
+				}
+
+				// After a forced reset only the reset token can set the password, or anyone could take the account
+				if (await authService.hasPendingPasswordReset(typedUser.id)) {
+					throw new ForbiddenError('A password reset is pending for this account. Use the reset token you were sent.');
+				}
+
+				const passwordHash = await authService.hashPassword(password);
+				const timestamp = new Date().toISOString();
+
+				// Update existing user with password
+				await db
+					.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
+					.bind(passwordHash, timestamp, typedUser.id)
+					.run();
+
+				const tokens = await authService.issueTokens(typedUser.id, normalizedEmail);
+				return {
+					...tokens,
+					user: {
+						id: typedUser.id,
+						email: normalizedEmail,
+					},
+				};
+			},
+		},
+
+		{
+			method: 'POST',
+			path: '/api/auth/login',
+			body: 'required',
+			purpose: 'for login',
+			handler: async ({ body }) => {
+				const { email, password } = body as LoginRequest;
+
+				if (!email?.trim() || !password?.trim()) {
+					throw new ValidationError('Both email and password are required for login');
+				}
+
+				const user = await db
+					.prepare('SELECT id, email, password_hash, is_admin, deactivated_at FROM users WHERE email = ?')
+					.bind(email.trim().toLowerCase())
+					.first();
+
+				if (!user) {
+					throw new UnauthenticatedError('Invalid email or password');
+				}
+
+				const typedUser = user as {
+					id: number;
+					email: string;
+					password_hash: string | null;
+					is_admin: boolean;
+					deactivated_at: string | null;
+				};
+				const { valid, needsRehash } = await authService.verifyPassword(password, typedUser.password_hash);
+				if (!valid) {
+					throw new UnauthenticatedError('Invalid email or password');
+				}
+
+				if (typedUser.deactivated_at) {
+					throw new ForbiddenError('This account has been deactivated. Please contact support.');
+				}
+
+				// Move legacy SHA-256 hashes to the current format now that we know the plain password
+				if (needsRehash) {
 					await db
 						.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
-						.bind(newPasswordHash, timestamp, userData.userId)
+						.bind(await authService.hashPassword(password), new Date().toISOString(), typedUser.id)
 						.run();
+				}
 
-					responseData = { success: true };
-					break;
-				}
-
-				default:
-					status = 404;
-					responseData = { error: 'Endpoint not found' };
-			}
-
-			return new Response(JSON.stringify(responseData), {
-				status,
-				headers: {
-					...corsHeaders,
-					'Content-Type': 'application/json',
-				},
-			});
-		} catch (error) {
-			console.error('Error:', error);
-			const status = error instanceof ValidationError ? 400 : 500;
-			const errorMessage =
-				error instanceof ValidationError
-					? error.message
-					: error instanceof Error
-					? error.message
-					: 'An unexpected error occurred. Please try again later.';
-
-			return new Response(JSON.stringify({ error: errorMessage }), {
-				status,
-				headers: {
-					...corsHeaders,
-					'Content-Type': 'application/json',
-				},
-			});
-		}
-	},
-};
+				const tokens = await authService.issueTokens(typedUser.id, typedUser.email);
+				return {
+					...tokens,
+					user: {
+						id: typedUser.id,
+						email: typedUser.email,
+						is_admin: typedUser.is_admin,
+					},
+				} satisfies AuthResponse;
+			},
+		},
 
-async function handleUserStats(request: Request, db: D1Database) {
-	const url = new URL(request.url);
-	const email = url.searchParams.get('email');
+		{
+			method: 'POST',
+			path: '/api/auth/refresh',
+			body: 'required',
+			purpose: 'to refresh the session',
+			handler: async ({ body }) => {
+				const { refresh_token } = body as RefreshRequest;
+
+				if (!refresh_token?.trim()) {
+					throw new ValidationError('Refresh token is required');
+				}
 
-	if (!email) {
-		return new Response('Email required', { status: 400 });
-	}
+				const { tokens, user } = await authService.refresh(refresh_token);
+				return { ...tokens, user } satisfies AuthResponse;
+			},
+		},
 
-	const stats = await db
-		.prepare(
-			`
-    SELECT 
-      u.current_streak,
-      u.highest_streak,
-      COUNT(r.id) as total_reads,
-      u.last_read_date
-    FROM users u
-    LEFT JOIN reads r ON u.email = r.email
-    WHERE u.email = ?
-    GROUP BY u.email
-  `
-		)
-		.bind(email)
-		.first();
-
-	return new Response(JSON.stringify(stats), {
-		headers: { 'Content-Type': 'application/json' },
-	});
-}
+		{
+			method: 'POST',
+			path: '/api/auth/reset-password',
+			body: 'required',
+			purpose: 'to reset the password',
+			handler: async ({ body }) => {
+				const { reset_token, password } = body as ResetPasswordRequest;
+
+				if (!reset_token?.trim() || !password?.trim()) {
+					throw new ValidationError('Both reset token and password are required to reset the password');
+				}
 
-async function handleAdminStats(db: D1Database) {
-	const stats = await db
-		.prepare(
-			`
-    SELECT 
-      COUNT(DISTINCT email) as total_users,
-      AVG(current_streak) as avg_streak,
-      MAX(highest_streak) as max_streak,
-      COUNT(*) as total_reads
-    FROM users
-  `
-		)
-		.first();
-
-	const topReaders = await db
-		.prepare(
-			`
-    SELECT 
-      u.email,
-      u.current_streak,
-      COUNT(r.id) as read_count
-    FROM users u
-    LEFT JOIN reads r ON u.email = r.email
-    GROUP BY u.email
-    ORDER BY read_count DESC
-    LIMIT 10
-  `
-		)
-		.all();
-
-	return new Response(
-		JSON.stringify({
-			overall: stats,
-			topReaders: topReaders.results,
-		}),
-		{
-			headers: { 'Content-Type': 'application/json' },
-		}
-	);
+				const { tokens, user } = await authService.resetPassword(reset_token, password);
+				return { ...tokens, user } satisfies AuthResponse;
+			},
+		},
+
+		{
+			method: 'POST',
+			path: '/api/auth/change-password',
+			role: 'user',
+			body: 'required',
+			purpose: 'to change password',
+			handler: async ({ user: userData, body }) => {
+				const { currentPassword, newPassword } = body as ChangePasswordRequest;
+
+				if (!currentPassword?.trim() || !newPassword?.trim()) {
+					throw new ValidationError('Both current password and new password are required');
+				}
+
+				const user = await db.prepare('SELECT id, password_hash FROM users WHERE id = ?').bind(userData!.userId).first();
+
+				if (!user) {
+					throw new NotFoundError('User not found');
+				}
+
+				const typedUser = user as { id: number; password_hash: string | null };
+				const { valid } = await authService.verifyPassword(currentPassword, typedUser.password_hash);
+				if (!valid) {
+					throw new ValidationError('Current password is incorrect');
+				}
+
+				const newPasswordHash = await authService.hashPassword(newPassword);
+				const timestamp = new Date().toISOString();
+
+				await db
+					.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?')
+					.bind(newPasswordHash, timestamp, userData!.userId)
+					.run();
+
+				// Sign out other sessions that may have been opened with the old password
+				await authService.revokeAllForUser(userData!.userId);
+
+				return { success: true };
+			},
+		},
+	];
+
+	// CORS wraps everything so errors, 404 and 405 responses get the headers too
+	return new Router(routes, [
+		cors(ALLOWED_ORIGINS),
+		handleErrors(),
+		requireSchema(migrationService),
+		authenticate(authService, db),
+		parseBody(),
+	]);
 }
+
+export default {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		return createRouter(env).handle(request);
+	},
+
+	// Nightly cron (see [triggers] in wrangler.toml), run after the publication's edition day ends
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		await new MigrationService(env.DB).assertUpToDate();
+
+		const db = new DatabaseService(env.DB, env.DEFAULT_TIMEZONE);
+		const snapshot = await new SnapshotService(db, new StreakService(db)).runNightly(new Date(controller.scheduledTime));
+		console.log(`Nightly job: wrote the snapshot for ${snapshot.date} and reset ${snapshot.streaks_reset} broken streaks`);
+	},
+};
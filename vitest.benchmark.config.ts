@@ -0,0 +1,17 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				// The seeded database is only read, so there is nothing to roll back between tests
+				isolatedStorage: false,
+				miniflare: {
+					compatibilityDate: '2024-02-18',
+					d1Databases: ['DB'],
+				},
+			},
+		},
+		include: ['src/**/*.benchmark.test.ts'],
+	},
+});
@@ -1,16 +1,18 @@
-import { defineConfig } from 'vitest/config';
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineConfig({
+export default defineWorkersConfig({
 	test: {
-		pool: '@cloudflare/vitest-pool-workers',
 		poolOptions: {
 			workers: {
 				miniflare: {
 					compatibilityDate: '2024-02-18',
+					// Local D1 for tests that run real queries
+					d1Databases: ['DB'],
 				},
 			},
 		},
 		include: ['src/**/*.{test,spec}.ts'],
-		exclude: ['node_modules', 'test'],
+		// The benchmarks seed tens of thousands of readers; run them with npm run test:benchmark
+		exclude: ['node_modules', 'test', 'src/**/*.benchmark.test.ts'],
 	},
 });